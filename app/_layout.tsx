@@ -1,6 +1,6 @@
-import { Stack } from 'expo-router';
 import AppNavigator from './navigation/AppNavigator';
 
+// expo-router only provides the navigation container; every screen is registered in AppNavigator
 export default function Layout() {
   return <AppNavigator />;
-}
\ No newline at end of file
+}
@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { apiErrorMessage } from '@/services/api';
+import { applyPriceChanges, PriceChange, PriceOperation, PriceResult, previewPriceChanges } from '@/services/bulkPricing';
+import { formatRupiah, Product } from '@/services/domain';
+import { getLocalProducts } from '@/services/productSync';
+
+type RootStackParamList = {
+  // `scope` describes where the products came from, e.g. "Brand NIKE" or "12 produk dipilih"
+  BulkPricing: { productIds: number[]; scope: string };
+};
+
+type OperationKind = PriceOperation['kind'];
+
+const OPERATIONS: { value: OperationKind; label: string }[] = [
+  { value: 'discount_percent', label: 'Diskon %' },
+  { value: 'adjust_percent', label: 'Naik/Turun %' },
+  { value: 'round', label: 'Bulatkan' },
+  { value: 'clear_discount', label: 'Hapus Diskon' },
+];
+
+const ROUNDING_STEPS = [1000, 5000, 10000, 50000];
+
+const formatAmount = (amount: number | null) => (amount === null ? '-' : formatRupiah(amount));
+
+// Change the prices of many products at once: pick an operation, check the preview, apply in one batch
+const BulkPricing = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'BulkPricing'>>();
+  const { productIds, scope } = route.params;
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'BulkPricing'>>();
+  const [products, setProducts] = useState<Product[] | null>(null);
+  const [kind, setKind] = useState<OperationKind>('discount_percent');
+  const [percent, setPercent] = useState('');
+  const [step, setStep] = useState(5000);
+  const [roundTarget, setRoundTarget] = useState<'selling' | 'discount'>('selling');
+  const [applying, setApplying] = useState(false);
+  const [results, setResults] = useState<PriceResult[] | null>(null);
+
+  useEffect(() => {
+    getLocalProducts().then((local) => {
+      const ids = new Set(productIds);
+      setProducts((local ?? []).filter((product) => ids.has(product.id)));
+    });
+  }, [productIds]);
+
+  // null until the operation's inputs are complete
+  const operation = useMemo((): PriceOperation | null => {
+    const value = Number(percent.replace(',', '.'));
+    switch (kind) {
+      case 'discount_percent':
+        return percent.trim() && value > 0 && value < 100 ? { kind, percent: value } : null;
+      case 'adjust_percent':
+        return percent.trim() && Number.isFinite(value) && value !== 0 && value > -100 ? { kind, percent: value } : null;
+      case 'round':
+        return { kind, step, target: roundTarget };
+      default:
+        return { kind };
+    }
+  }, [kind, percent, step, roundTarget]);
+
+  const changes = useMemo(
+    () => (products && operation ? previewPriceChanges(products, operation) : []),
+    [products, operation]
+  );
+  const valid = useMemo(() => changes.filter((change) => !change.error).length, [changes]);
+
+  const handleApply = () => {
+    const skipped = changes.length - valid;
+    Alert.alert(
+      'Terapkan Harga',
+      `Harga ${valid} produk akan diubah.${skipped > 0 ? ` ${skipped} produk dilewati karena harganya tidak valid.` : ''}`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Terapkan',
+          onPress: async () => {
+            setApplying(true);
+            try {
+              setResults(await applyPriceChanges(changes));
+            } catch (error) {
+              const message = apiErrorMessage(error, 'Gagal memperbarui harga.');
+              if (message) Alert.alert('Error', message);
+            } finally {
+              setApplying(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChange = useCallback(
+    ({ item }: { item: PriceChange }) => (
+      <View style={[styles.rowCard, item.error !== null && styles.failedCard]}>
+        <Text style={styles.rowTitle}>
+          {item.product.name} · {item.product.color || '-'} · Ukuran {item.product.size || '-'}
+        </Text>
+        <Text style={styles.rowMeta}>
+          Harga: {formatAmount(item.before.selling_price)} → {formatAmount(item.after.selling_price)}
+        </Text>
+        <Text style={styles.rowMeta}>
+          Diskon: {formatAmount(item.before.discount_price)} → {formatAmount(item.after.discount_price)}
+        </Text>
+        {item.error && <Text style={[styles.rowMeta, styles.errorText]}>{item.error}</Text>}
+      </View>
+    ),
+    []
+  );
+
+  const renderResult = useCallback(
+    ({ item }: { item: PriceResult }) => (
+      <View style={[styles.rowCard, !item.ok && styles.failedCard]}>
+        <Text style={styles.rowTitle}>
+          {item.product.name} · {item.product.color || '-'} · Ukuran {item.product.size || '-'}
+        </Text>
+        {item.ok && (
+          <Text style={styles.rowMeta}>
+            {formatAmount(item.product.selling_price)} · diskon {formatAmount(item.product.discount_price)}
+          </Text>
+        )}
+        <Text style={[styles.rowMeta, item.ok ? styles.successText : styles.errorText]}>{item.message}</Text>
+      </View>
+    ),
+    []
+  );
+
+  if (!products || applying) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+        {applying && <Text style={styles.progressText}>Memperbarui harga {valid} produk...</Text>}
+      </View>
+    );
+  }
+
+  if (results) {
+    const failed = results.filter((result) => !result.ok).length;
+    return (
+      <FlatList
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        data={results}
+        keyExtractor={(item) => item.product.id.toString()}
+        renderItem={renderResult}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.title}>Perubahan Harga Selesai</Text>
+            <Text style={styles.subtitle}>
+              {results.length - failed} berhasil · {failed} gagal
+            </Text>
+            <TouchableOpacity style={styles.actionButton} onPress={() => navigation.goBack()}>
+              <Text style={styles.actionButtonText}>Kembali ke Inventaris</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={changes}
+      keyExtractor={(item) => item.product.id.toString()}
+      renderItem={renderChange}
+      keyboardShouldPersistTaps="handled"
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.title}>Ubah Harga Massal</Text>
+          <Text style={styles.subtitle}>
+            {scope} · {products.length} produk
+          </Text>
+          <View style={styles.chips}>
+            {OPERATIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, kind === option.value && styles.chipSelected]}
+                onPress={() => setKind(option.value)}
+              >
+                <Text style={[styles.chipText, kind === option.value && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {(kind === 'discount_percent' || kind === 'adjust_percent') && (
+            <>
+              <TextInput
+                style={styles.input}
+                value={percent}
+                onChangeText={(text) => setPercent(text.replace(kind === 'adjust_percent' ? /[^\d.,-]/g : /[^\d.,]/g, ''))}
+                keyboardType="numbers-and-punctuation"
+                placeholder={kind === 'discount_percent' ? 'Persen diskon, misal 20' : 'Persen, misal 10 atau -10'}
+                placeholderTextColor="#9CA3AF"
+              />
+              <Text style={styles.hint}>
+                {kind === 'discount_percent'
+                  ? 'Harga diskon = harga jual dikurangi persen ini.'
+                  : 'Harga jual dinaikkan (angka positif) atau diturunkan (angka negatif). Harga diskon tidak berubah.'}
+              </Text>
+            </>
+          )}
+          {kind === 'round' && (
+            <>
+              <View style={styles.chips}>
+                {(['selling', 'discount'] as const).map((target) => (
+                  <TouchableOpacity
+                    key={target}
+                    style={[styles.chip, roundTarget === target && styles.chipSelected]}
+                    onPress={() => setRoundTarget(target)}
+                  >
+                    <Text style={[styles.chipText, roundTarget === target && styles.chipTextSelected]}>
+                      {target === 'selling' ? 'Harga Jual' : 'Harga Diskon'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.chips}>
+                {ROUNDING_STEPS.map((value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.chip, step === value && styles.chipSelected]}
+                    onPress={() => setStep(value)}
+                  >
+                    <Text style={[styles.chipText, step === value && styles.chipTextSelected]}>
+                      {new Intl.NumberFormat('id-ID').format(value)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.hint}>Dibulatkan ke kelipatan terdekat.</Text>
+            </>
+          )}
+          <Text style={styles.subtitle}>
+            {operation
+              ? `${changes.length} produk berubah${changes.length - valid > 0 ? ` · ${changes.length - valid} tidak valid` : ''}`
+              : 'Lengkapi pengaturan untuk melihat pratinjau.'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.actionButton, valid === 0 && styles.disabledButton]}
+            onPress={handleApply}
+            disabled={valid === 0}
+          >
+            <Text style={styles.actionButtonText}>Terapkan ke {valid} Produk</Text>
+          </TouchableOpacity>
+        </View>
+      }
+      ListEmptyComponent={
+        operation ? <Text style={styles.emptyText}>Tidak ada harga yang berubah dengan pengaturan ini.</Text> : null
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  hint: {
+    color: '#9CA3AF',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  progressText: {
+    color: '#1F2937',
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#1F2937',
+    marginTop: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    color: '#BFDBFE',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  failedCard: {
+    borderColor: '#FCA5A5',
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  rowMeta: {
+    color: '#4B5563',
+    fontSize: 13,
+  },
+  successText: {
+    color: '#16A34A',
+  },
+  errorText: {
+    color: '#DC2626',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default BulkPricing;
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import {
+  addCashier,
+  Cashier,
+  CashierRole,
+  isValidPin,
+  lockCashier,
+  pinLockoutRemaining,
+  removeCashier,
+  unlockCashier,
+  unlockStoreAccount,
+  useCashiers,
+} from '@/services/cashiers';
+import { ROLE_LABELS, usePermissions } from '@/services/permissions';
+
+// Cashier quick-switch: pick your name, enter your PIN, and go back to the same cart.
+// Owners and admins also maintain the list of cashiers here; once the list exists, that takes
+// an unlocked admin cashier, since the app then works with the unlocked cashier's role.
+// The owner takes the counter back with the store account itself, after device authentication.
+const CashierSwitch = () => {
+  const navigation = useNavigation();
+  const { ready, cashiers, active, storeAccount } = useCashiers();
+  const { can } = usePermissions();
+  const canManage = can('cashier.manage');
+  const [selected, setSelected] = useState<Cashier | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [newRole, setNewRole] = useState<CashierRole>('cashier');
+
+  const selectCashier = (cashier: Cashier) => {
+    setSelected(cashier);
+    setPin('');
+    setError('');
+  };
+
+  const handleUnlock = async () => {
+    if (!selected) return;
+    const lockout = await pinLockoutRemaining();
+    if (lockout > 0) {
+      setError(`Terlalu banyak PIN salah. Coba lagi dalam ${Math.ceil(lockout / 1000)} detik.`);
+      return;
+    }
+    setBusy(true);
+    const cashier = await unlockCashier(selected.id, pin);
+    setBusy(false);
+    setPin('');
+    if (!cashier) {
+      const remaining = await pinLockoutRemaining();
+      setError(
+        remaining > 0
+          ? `Terlalu banyak PIN salah. Coba lagi dalam ${Math.ceil(remaining / 1000)} detik.`
+          : 'PIN salah. Silakan coba lagi.'
+      );
+      return;
+    }
+    setSelected(null);
+    // Back to the screen that asked for a cashier, with its cart untouched
+    if (navigation.canGoBack()) navigation.goBack();
+  };
+
+  const handleStoreAccount = async () => {
+    try {
+      if (!(await unlockStoreAccount())) return;
+      setSelected(null);
+      if (navigation.canGoBack()) navigation.goBack();
+    } catch (err) {
+      Alert.alert('Gagal Membuka Akun Toko', err instanceof Error ? err.message : 'Terjadi kesalahan.');
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      // The first cashier has to be an admin; see addCashier
+      await addCashier(newName, newPin, cashiers.length === 0 ? 'admin' : newRole);
+      setNewName('');
+      setNewPin('');
+      setNewRole('cashier');
+    } catch (err) {
+      Alert.alert('Gagal Menambah Kasir', err instanceof Error ? err.message : 'Terjadi kesalahan.');
+    }
+  };
+
+  const handleRemove = (cashier: Cashier) => {
+    Alert.alert('Hapus Kasir', `Hapus ${cashier.name} dari daftar kasir perangkat ini?`, [
+      { text: 'Batal', style: 'cancel' },
+      {
+        text: 'Hapus',
+        style: 'destructive',
+        onPress: () =>
+          removeCashier(cashier.id).catch((err) =>
+            Alert.alert('Gagal Menghapus Kasir', err instanceof Error ? err.message : 'Terjadi kesalahan.')
+          ),
+      },
+    ]);
+  };
+
+  if (!ready) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#FF6B35" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Ganti Kasir</Text>
+      <Text style={styles.subtitle}>
+        {active ? `Kasir aktif: ${active.name}` : storeAccount ? 'Akun toko aktif.' : 'Belum ada kasir aktif.'}
+      </Text>
+      {(active || storeAccount) && (
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={lockCashier}>
+          <Text style={styles.buttonText}>Kunci Kasir</Text>
+        </TouchableOpacity>
+      )}
+      {cashiers.length > 0 && !storeAccount && (
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handleStoreAccount}>
+          <Text style={styles.buttonText}>Pakai Akun Toko</Text>
+        </TouchableOpacity>
+      )}
+
+      {cashiers.length === 0 ? (
+        <Text style={styles.empty}>
+          {canManage
+            ? 'Belum ada kasir terdaftar. Tambahkan kasir di bawah ini.'
+            : 'Belum ada kasir terdaftar. Minta pemilik atau admin untuk menambahkan kasir.'}
+        </Text>
+      ) : (
+        cashiers.map((cashier) => (
+          <View key={cashier.id} style={[styles.card, selected?.id === cashier.id && styles.cardSelected]}>
+            <TouchableOpacity style={styles.cardRow} onPress={() => selectCashier(cashier)}>
+              <Text style={styles.cardText}>
+                {cashier.name} · {ROLE_LABELS[cashier.role]}
+                {active?.id === cashier.id ? ' (aktif)' : ''}
+              </Text>
+              {canManage && (
+                <TouchableOpacity onPress={() => handleRemove(cashier)}>
+                  <Text style={styles.removeText}>Hapus</Text>
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+            {selected?.id === cashier.id && (
+              <View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="PIN"
+                  placeholderTextColor="#8892B0"
+                  value={pin}
+                  onChangeText={(text) => setPin(text.replace(/\D/g, ''))}
+                  keyboardType="number-pad"
+                  secureTextEntry
+                  maxLength={6}
+                  autoFocus
+                  onSubmitEditing={handleUnlock}
+                />
+                {error ? <Text style={styles.error}>{error}</Text> : null}
+                <TouchableOpacity
+                  style={[styles.button, (!isValidPin(pin) || busy) && styles.buttonDisabled]}
+                  onPress={handleUnlock}
+                  disabled={!isValidPin(pin) || busy}
+                >
+                  {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Buka</Text>}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))
+      )}
+
+      {canManage && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Tambah Kasir</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Nama Kasir"
+            placeholderTextColor="#8892B0"
+            value={newName}
+            onChangeText={setNewName}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="PIN (4-6 angka)"
+            placeholderTextColor="#8892B0"
+            value={newPin}
+            onChangeText={(text) => setNewPin(text.replace(/\D/g, ''))}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={6}
+          />
+          {cashiers.length === 0 ? (
+            <Text style={styles.hint}>Kasir pertama menjadi Admin, agar daftar kasir tetap bisa dikelola.</Text>
+          ) : (
+            <View style={styles.roleRow}>
+              {(['cashier', 'admin'] as CashierRole[]).map((role) => (
+                <TouchableOpacity
+                  key={role}
+                  style={[styles.roleChip, newRole === role && styles.roleChipActive]}
+                  onPress={() => setNewRole(role)}
+                >
+                  <Text style={styles.roleChipText}>{ROLE_LABELS[role]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <TouchableOpacity style={styles.button} onPress={handleAdd}>
+            <Text style={styles.buttonText}>Tambah</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1E2A3A',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#8892B0',
+    marginBottom: 16,
+  },
+  empty: {
+    fontSize: 15,
+    color: '#8892B0',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  card: {
+    backgroundColor: '#2A3A4F',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardSelected: {
+    borderColor: '#FF6B35',
+    borderWidth: 1,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardText: {
+    fontSize: 17,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  removeText: {
+    color: '#FF4444',
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1E2A3A',
+    color: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  error: {
+    color: '#FF4444',
+    marginTop: 8,
+  },
+  hint: {
+    color: '#8892B0',
+    marginTop: 12,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  roleChip: {
+    flex: 1,
+    backgroundColor: '#1E2A3A',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  roleChipActive: {
+    backgroundColor: '#FF6B35',
+  },
+  roleChipText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  button: {
+    backgroundColor: '#FF6B35',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButton: {
+    backgroundColor: '#3A4A5F',
+    marginTop: 0,
+    marginBottom: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
+
+export default CashierSwitch;
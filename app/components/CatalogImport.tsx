@@ -0,0 +1,332 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { applyCatalogImport, ImportAction, ImportResult, ImportRow, planCatalogImport } from '@/services/catalogCsv';
+import { getLocalProducts } from '@/services/productSync';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  new: 'Baru',
+  update: 'Diubah',
+  unchanged: 'Sama',
+  conflict: 'Konflik',
+  error: 'Error',
+};
+
+const ACTION_STYLES = {
+  new: { backgroundColor: '#16A34A' },
+  update: { backgroundColor: '#2563EB' },
+  unchanged: { backgroundColor: '#6B7280' },
+  conflict: { backgroundColor: '#F59E0B' },
+  error: { backgroundColor: '#DC2626' },
+};
+
+const isSendable = (row: ImportRow) => row.action === 'new' || row.action === 'update';
+
+// Import a catalog CSV: dry-run diff against the local inventory first, then send new and changed rows
+const CatalogImport = () => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [filter, setFilter] = useState<ImportAction | 'all'>('all');
+  const [reading, setReading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const counts = useMemo(() => {
+    const initial: Record<ImportAction, number> = { new: 0, update: 0, unchanged: 0, conflict: 0, error: 0 };
+    return (rows ?? []).reduce((sum, row) => ({ ...sum, [row.action]: sum[row.action] + 1 }), initial);
+  }, [rows]);
+  const sendable = useMemo(() => (rows ?? []).filter(isSendable).length, [rows]);
+  const visibleRows = useMemo(
+    () => (rows ?? []).filter((row) => filter === 'all' || row.action === filter),
+    [rows, filter]
+  );
+
+  const handlePickFile = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) return;
+    const asset = picked.assets[0];
+    setReading(true);
+    setResults(null);
+    try {
+      const content = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+      const plan = planCatalogImport(content, (await getLocalProducts()) ?? []);
+      setFileName(asset.name);
+      setRows(plan);
+      setFilter('all');
+    } catch (error) {
+      console.error('Gagal membaca file CSV:', error);
+      Alert.alert('File Tidak Bisa Dibaca', (error as Error).message || 'Pastikan file berformat CSV.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!rows) return;
+    const skipped = counts.conflict + counts.error;
+    Alert.alert(
+      'Kirim Perubahan',
+      `${counts.new} produk baru dan ${counts.update} perubahan akan dikirim.${skipped > 0 ? ` ${skipped} baris konflik/error dilewati.` : ''}`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Kirim',
+          onPress: async () => {
+            setProgress({ done: 0, total: sendable });
+            const sent = await applyCatalogImport(rows, (done, total) => setProgress({ done, total }));
+            setProgress(null);
+            setResults(sent);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRow = useCallback(
+    ({ item }: { item: ImportRow }) => (
+      <View style={styles.rowCard}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowTitle}>
+            Baris {item.line} · {item.label}
+          </Text>
+          <Text style={[styles.badge, ACTION_STYLES[item.action]]}>{ACTION_LABELS[item.action]}</Text>
+        </View>
+        {item.messages.map((message) => (
+          <Text key={message} style={styles.rowMeta}>
+            {message}
+          </Text>
+        ))}
+      </View>
+    ),
+    []
+  );
+
+  const renderResult = useCallback(
+    ({ item }: { item: ImportResult }) => (
+      <View style={[styles.rowCard, !item.ok && styles.failedCard]}>
+        <Text style={styles.rowTitle}>
+          Baris {item.row.line} · {item.row.label}
+        </Text>
+        <Text style={[styles.rowMeta, item.ok ? styles.successText : styles.errorText]}>{item.message}</Text>
+      </View>
+    ),
+    []
+  );
+
+  if (progress) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+        <Text style={styles.progressText}>
+          Mengirim {progress.done} / {progress.total} baris...
+        </Text>
+      </View>
+    );
+  }
+
+  if (results) {
+    const failed = results.filter((result) => !result.ok).length;
+    return (
+      <FlatList
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        data={results}
+        keyExtractor={(item) => item.row.line.toString()}
+        renderItem={renderResult}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.title}>Impor Selesai</Text>
+            <Text style={styles.subtitle}>
+              {results.length - failed} berhasil · {failed} gagal
+            </Text>
+            <TouchableOpacity style={styles.actionButton} onPress={handlePickFile}>
+              <Text style={styles.actionButtonText}>Impor File Lain</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={visibleRows}
+      keyExtractor={(item) => item.line.toString()}
+      renderItem={renderRow}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.title}>Impor Katalog CSV</Text>
+          <Text style={styles.subtitle}>
+            {fileName
+              ? `${fileName} · ${rows?.length ?? 0} baris`
+              : 'Kolom: id, brand, model, warna, ukuran, stok, harga_jual, harga_diskon, kode_unit. Baris dengan id mengubah produk yang ada; kode unit hanya dicocokkan, tidak diubah.'}
+          </Text>
+          <TouchableOpacity style={[styles.actionButton, reading && styles.disabledButton]} onPress={handlePickFile} disabled={reading}>
+            {reading ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.actionButtonText}>Pilih File CSV</Text>}
+          </TouchableOpacity>
+          {rows && (
+            <>
+              <View style={styles.filters}>
+                <TouchableOpacity
+                  style={[styles.filterChip, filter === 'all' && styles.filterChipSelected]}
+                  onPress={() => setFilter('all')}
+                >
+                  <Text style={[styles.filterText, filter === 'all' && styles.filterTextSelected]}>Semua ({rows.length})</Text>
+                </TouchableOpacity>
+                {(Object.keys(ACTION_LABELS) as ImportAction[]).map((action) => (
+                  <TouchableOpacity
+                    key={action}
+                    style={[styles.filterChip, filter === action && styles.filterChipSelected]}
+                    onPress={() => setFilter(action)}
+                  >
+                    <Text style={[styles.filterText, filter === action && styles.filterTextSelected]}>
+                      {ACTION_LABELS[action]} ({counts[action]})
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TouchableOpacity
+                style={[styles.actionButton, sendable === 0 && styles.disabledButton]}
+                onPress={handleApply}
+                disabled={sendable === 0}
+              >
+                <Text style={styles.actionButtonText}>Kirim {sendable} Baris</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      }
+      ListEmptyComponent={rows ? <Text style={styles.emptyText}>Tidak ada baris untuk filter ini.</Text> : null}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  progressText: {
+    color: '#1F2937',
+    marginTop: 12,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  filterChipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  filterText: {
+    color: '#BFDBFE',
+    fontWeight: '600',
+  },
+  filterTextSelected: {
+    color: '#FFFFFF',
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  failedCard: {
+    borderColor: '#FCA5A5',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  rowTitle: {
+    flex: 1,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  rowMeta: {
+    color: '#4B5563',
+    fontSize: 13,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  successText: {
+    color: '#16A34A',
+  },
+  errorText: {
+    color: '#DC2626',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default CatalogImport;
@@ -1,9 +1,11 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef, memo } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Modal, Animated, ImageBackground, ScrollView, ActivityIndicator, Alert, Dimensions } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Animated, ImageBackground, ScrollView, ActivityIndicator, Dimensions } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { api, apiErrorMessage } from '@/services/api';
+import { DashboardData, dashboardResponseSchema } from '@/services/schemas';
+import { usePermissions } from '@/services/permissions';
 
 type RootStackParamList = {
   Login: undefined;
@@ -13,29 +15,14 @@ type RootStackParamList = {
   TransactionIndex: undefined;
   TransactionCreate: undefined;
   Monitoring: undefined;
+  CashierSwitch: undefined;
+  StockTake: undefined;
+  Receiving: undefined;
 };
 
 type DashboardNavigationProp = StackNavigationProp<RootStackParamList, 'Dashboard'>;
 
-interface DashboardResponse {
-  data: {
-    total_products: number;
-    total_transactions: number;
-    total_sales: string;
-    hourly_data: number[];
-    labels: string[];
-    top_products: { name: string; quantity: string }[];
-    recent_transactions: {
-      id: number;
-      created_at: string;
-      user: { name: string };
-      items: { product: { name: string } }[];
-      final_amount: string;
-      status: string;
-    }[];
-    message?: string;
-  };
-}
+type RecentTransaction = DashboardData['recent_transactions'][number];
 
 const Dashboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
@@ -46,15 +33,17 @@ const Dashboard: React.FC = () => {
   const [hourlyData, setHourlyData] = useState<number[]>([]);
   const [hourlyLabels, setHourlyLabels] = useState<string[]>([]);
   const [topProducts, setTopProducts] = useState<{ name: string; quantity: number }[]>([]);
-  const [recentTransactions, setRecentTransactions] = useState<
-    { id: number; created_at: string; user: { name: string }; items: { product: { name: string } }[]; final_amount: number; status: string }[]
-  >([]);
+  const [recentTransactions, setRecentTransactions] = useState<RecentTransaction[]>([]);
   const [menuVisible, setMenuVisible] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
   const slideAnim = useState(new Animated.Value(-300))[0];
   const fadeAnim = useState(new Animated.Value(0))[0];
   const navigation = useNavigation<DashboardNavigationProp>();
-  const prevDataRef = useRef<DashboardResponse['data'] | null>(null);
+  const { ready, can } = usePermissions();
+  // Sales figures and recent transactions are reports; other roles only get the menu
+  const canViewReport = can('report.view');
+  const showLoading = !ready || (canViewReport && loading);
+  const prevDataRef = useRef<DashboardData | null>(null);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -209,7 +198,7 @@ const Dashboard: React.FC = () => {
   });
 
   const TransactionTable: React.FC<{
-    transactions: { id: number; created_at: string; user: { name: string }; items: { product: { name: string } }[]; final_amount: number; status: string }[];
+    transactions: RecentTransaction[];
   }> = memo(({ transactions }) => {
     const { width } = Dimensions.get('window');
     const cellWidths = {
@@ -303,52 +292,8 @@ const Dashboard: React.FC = () => {
 
   const fetchData = useCallback(async () => {
     try {
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        throw new Error('Token tidak ditemukan. Silakan login ulang.');
-      }
-
-      const response = await fetch('https://testingaplikasi.tokosepatusovan.com/api/dashboard', {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      });
-
-      console.log('Status:', response.status);
-      const text = await response.text();
-      console.log('Raw Response:', text);
-
-      let data: DashboardResponse;
-      try {
-        data = JSON.parse(text);
-      } catch (parseError) {
-        throw new Error('Server tidak mengembalikan JSON valid: ' + text.slice(0, 100));
-      }
-
-      if (!response.ok) {
-        throw new Error(data.data?.message || `Gagal mengambil data dari API: ${response.status}`);
-      }
-
-      const newData = data.data || {};
-
-      const parsedData = {
-        total_products: newData.total_products || 0,
-        total_transactions: newData.total_transactions || 0,
-        total_sales: parseFloat(newData.total_sales || '0') || 0,
-        hourly_data: newData.hourly_data || [],
-        labels: newData.labels || [],
-        top_products: (newData.top_products || []).map(product => ({
-          name: product.name || '-',
-          quantity: parseInt(product.quantity, 10) || 0,
-        })),
-        recent_transactions: (newData.recent_transactions || []).map(transaction => ({
-          ...transaction,
-          final_amount: parseFloat(transaction.final_amount) || 0,
-        })),
-      };
+      // Polled every 5 seconds, so a failed poll is not retried
+      const { data: parsedData } = await api.get('/dashboard', { retries: 0, schema: dashboardResponseSchema });
 
       const prevTransactions = prevDataRef.current?.recent_transactions || [];
       const newTransactions = parsedData.recent_transactions;
@@ -356,7 +301,7 @@ const Dashboard: React.FC = () => {
         prevTransactions.length !== newTransactions.length ||
         !prevTransactions.every((prev, index) => prev.id === newTransactions[index]?.id);
 
-      prevDataRef.current = newData;
+      prevDataRef.current = parsedData;
 
       if (hasNewTransactions || loading) {
         setTotalUnits(parsedData.total_products);
@@ -369,23 +314,25 @@ const Dashboard: React.FC = () => {
         setLoading(false);
       }
     } catch (err: unknown) {
-      const errorMsg =
-        err instanceof Error
-          ? err.message.includes('Token tidak ditemukan') || (err as any).response?.status === 401
-            ? 'Sesi login habis. Silakan login ulang.'
-            : `Gagal mengambil data: ${err.message}`
-          : 'Terjadi kesalahan tidak diketahui';
-      setError(errorMsg);
-      setLoading(false);
-      Alert.alert('Error', errorMsg, [{ text: 'OK', onPress: () => navigation.replace('Login') }]);
+      const message = apiErrorMessage(err, 'Terjadi kesalahan tidak diketahui');
+      if (message === null) return;
+      const errorMsg = `Gagal mengambil data: ${message}`;
+      // Keep showing the last data when a background poll fails
+      if (loading) {
+        setError(errorMsg);
+        setLoading(false);
+      } else {
+        console.warn(errorMsg);
+      }
     }
-  }, [navigation, loading]);
+  }, [loading]);
 
   useEffect(() => {
+    if (!canViewReport) return;
     fetchData();
     const interval = setInterval(fetchData, 5000);
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, canViewReport]);
 
   useEffect(() => {
     Animated.timing(slideAnim, {
@@ -395,20 +342,16 @@ const Dashboard: React.FC = () => {
     }).start();
 
     Animated.timing(fadeAnim, {
-      toValue: loading ? 0 : 1,
+      toValue: showLoading ? 0 : 1,
       duration: 500,
       useNativeDriver: true,
     }).start();
-  }, [menuVisible, loading]);
+  }, [menuVisible, showLoading]);
 
-  const handleLogout = async () => {
-    try {
-      await AsyncStorage.removeItem('token');
-      navigation.replace('Login');
-    } catch {
-      Alert.alert('Error', 'Gagal logout. Silakan coba lagi.');
-    }
+  // The Logout screen warns about unsent sales before anything is cleared
+  const handleLogout = () => {
     setMenuVisible(false);
+    navigation.navigate('Logout');
   };
 
   const filteredHourlyData = useMemo(() => {
@@ -421,7 +364,7 @@ const Dashboard: React.FC = () => {
     return hourlyLabels.slice(0, currentHour + 1).filter((_, index) => hourlyData[index] > 0);
   }, [hourlyLabels, hourlyData, currentTime]);
 
-  if (loading) {
+  if (showLoading) {
     return (
       <View style={styles.container}>
         <ActivityIndicator size="large" color="#3B82F6" />
@@ -434,8 +377,14 @@ const Dashboard: React.FC = () => {
     return (
       <View style={styles.container}>
         <Text style={styles.errorText}>Error: {error}</Text>
-        <TouchableOpacity style={styles.button} onPress={() => navigation.replace('Login')}>
-          <Text style={styles.buttonText}>Kembali ke Login</Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => {
+            setError(null);
+            setLoading(true);
+          }}
+        >
+          <Text style={styles.buttonText}>Coba Lagi</Text>
         </TouchableOpacity>
       </View>
     );
@@ -467,27 +416,33 @@ const Dashboard: React.FC = () => {
 
       <ScrollView style={styles.content}>
         <Text style={styles.sectionTitle}>LAPORAN HARIAN</Text>
-        <Animated.View style={[styles.cardContainer, { opacity: fadeAnim }]}>
-          <StatCard title="Total Unit" value={totalUnits} icon="👟" delay={200} />
-          <StatCard title="Transaksi Hari Ini" value={totalTransactions} icon="🛒" delay={400} />
-          <StatCard title="Penjualan Hari Ini" value={totalSales} icon="💰" delay={600} />
-        </Animated.View>
-
-        <View style={styles.chartsContainer}>
-          <SimpleBarChart
-            data={filteredHourlyData}
-            labels={filteredHourlyLabels}
-            title="Transaksi per Jam"
-            subtitle="Laporan Transaksi Harian"
-          />
-          <SimplePieChart
-            data={topProducts}
-            title="Distribusi Unit per Produk"
-            subtitle="Jumlah Unit per Produk"
-          />
-        </View>
+        {canViewReport ? (
+          <>
+            <Animated.View style={[styles.cardContainer, { opacity: fadeAnim }]}>
+              <StatCard title="Total Unit" value={totalUnits} icon="👟" delay={200} />
+              <StatCard title="Transaksi Hari Ini" value={totalTransactions} icon="🛒" delay={400} />
+              <StatCard title="Penjualan Hari Ini" value={totalSales} icon="💰" delay={600} />
+            </Animated.View>
+
+            <View style={styles.chartsContainer}>
+              <SimpleBarChart
+                data={filteredHourlyData}
+                labels={filteredHourlyLabels}
+                title="Transaksi per Jam"
+                subtitle="Laporan Transaksi Harian"
+              />
+              <SimplePieChart
+                data={topProducts}
+                title="Distribusi Unit per Produk"
+                subtitle="Jumlah Unit per Produk"
+              />
+            </View>
 
-        <TransactionTable transactions={recentTransactions} />
+            <TransactionTable transactions={recentTransactions} />
+          </>
+        ) : (
+          <Text style={styles.noDataText}>Laporan penjualan hanya dapat dilihat oleh Admin dan Pemilik. Buka menu untuk mulai bekerja.</Text>
+        )}
       </ScrollView>
 
       <Modal animationType="none" transparent={true} visible={menuVisible} onRequestClose={() => setMenuVisible(false)}>
@@ -496,33 +451,72 @@ const Dashboard: React.FC = () => {
             <TouchableOpacity style={styles.closeButton} onPress={() => setMenuVisible(false)}>
               <Icon name="close" size={26} color="#FFFFFF" />
             </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={() => {
-                navigation.navigate('Inventory');
-                setMenuVisible(false);
-              }}
-            >
-              <Text style={styles.menuText}>Lihat Inventory</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={() => {
-                navigation.navigate('TransactionIndex');
-                setMenuVisible(false);
-              }}
-            >
-              <Text style={styles.menuText}>Buat Transaksi</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={() => {
-                navigation.navigate('Monitoring');
-                setMenuVisible(false);
-              }}
-            >
-              <Text style={styles.menuText}>Monitoring Pengunjung</Text>
-            </TouchableOpacity>
+            {can('inventory.view') && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  navigation.navigate('Inventory');
+                  setMenuVisible(false);
+                }}
+              >
+                <Text style={styles.menuText}>Lihat Inventory</Text>
+              </TouchableOpacity>
+            )}
+            {can('inventory.view') && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  navigation.navigate('StockTake');
+                  setMenuVisible(false);
+                }}
+              >
+                <Text style={styles.menuText}>Stok Opname</Text>
+              </TouchableOpacity>
+            )}
+            {can('inventory.edit') && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  navigation.navigate('Receiving');
+                  setMenuVisible(false);
+                }}
+              >
+                <Text style={styles.menuText}>Penerimaan Barang</Text>
+              </TouchableOpacity>
+            )}
+            {can('transaction.view') && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  navigation.navigate('TransactionIndex');
+                  setMenuVisible(false);
+                }}
+              >
+                <Text style={styles.menuText}>Buat Transaksi</Text>
+              </TouchableOpacity>
+            )}
+            {can('monitoring.view') && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  navigation.navigate('Monitoring');
+                  setMenuVisible(false);
+                }}
+              >
+                <Text style={styles.menuText}>Monitoring Pengunjung</Text>
+              </TouchableOpacity>
+            )}
+            {can('cashier.manage') && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => {
+                  navigation.navigate('CashierSwitch');
+                  setMenuVisible(false);
+                }}
+              >
+                <Text style={styles.menuText}>Kelola Kasir</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity style={[styles.menuItem, styles.logoutButton]} onPress={handleLogout}>
               <Text style={styles.menuText}>Logout</Text>
             </TouchableOpacity>
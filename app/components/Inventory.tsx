@@ -1,7 +1,9 @@
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
-import { useFocusEffect } from '@react-navigation/native';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Image } from 'expo-image';
 import { debounce } from 'lodash';
 import React, { useCallback, useMemo, useState } from 'react';
 import {
@@ -9,7 +11,6 @@ import {
   Alert,
   Dimensions,
   FlatList,
-  Image,
   Platform,
   StyleSheet,
   Text,
@@ -17,52 +18,101 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { api, ApiError, apiErrorMessage, isUnauthorized } from '@/services/api';
+import { catalogCsv } from '@/services/catalogCsv';
+import { datedFileName, shareCsv } from '@/services/csv';
+import {
+  activeFilterCount,
+  applyInventoryFilters,
+  DEFAULT_FILTERS,
+  deleteInventoryPreset,
+  getInventoryPresets,
+  InventoryFilters,
+  InventoryPreset,
+  InventorySort,
+  saveInventoryPreset,
+  sortInventory,
+  SORT_OPTIONS,
+  StockFilter,
+} from '@/services/inventoryFilters';
+import { cacheProductThumbnails, useProductThumbnails } from '@/services/productPhotos';
+import { getLocalProducts, removeLocalProduct, syncProducts } from '@/services/productSync';
+import {
+  effectivePrice,
+  hasDiscount,
+  normalizeUnitCode,
+  Product,
+  unitQrPayload,
+} from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { countedStock, getStockTake } from '@/services/stockTake';
+import { stockLevel, useStockThresholds } from '@/services/stockThresholds';
+import QrCode from './QrCode';
 
-// Define types for inventory item and state
-interface Unit {
-  unit_code: string;
-  qr_code: string | null;
-}
-
-interface InventoryItem {
-  id: number;
-  name: string;
-  brand: string;
-  model: string;
-  size: string;
-  color: string;
-  stock: number;
-  selling_price: string;
-  discount_price: string | null;
-  units: Unit[];
-}
+type RootStackParamList = {
+  // Set when opened from a product or unit link (services/deepLinks.ts)
+  Inventory: { productId?: number; unitCode?: string } | undefined;
+  ProductCreate: undefined;
+  ProductVariants: { productId: number };
+  ProductUnits: { productId: number };
+  LabelPrint: { productIds: number[]; unitCodes?: string[] };
+  StockMovements: { productId: number; unitCode?: string };
+  ReorderReport: undefined;
+  CatalogImport: undefined;
+  ProductPhoto: { productId: number };
+  BulkPricing: { productIds: number[]; scope: string };
+};
 
+// Define types for inventory item and state
 interface InventoryState {
-  products: InventoryItem[];
+  products: Product[];
   searchTerm: string;
   sizeTerm: string;
-  editItem: InventoryItem | null;
   brandCounts: { [key: string]: number };
   selectedBrand: string;
   isLoading: boolean;
   errorMessage: string;
   currentPage: number;
+  filters: InventoryFilters;
+  sort: InventorySort;
 }
 
-// Cache settings
-const CACHE_KEY = 'inventory_products';
-const CACHE_TIMESTAMP_KEY = 'inventory_cache_timestamp';
-const CACHE_VALIDITY_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+const STOCK_FILTERS: { value: StockFilter; label: string }[] = [
+  { value: 'all', label: 'Semua Stok' },
+  { value: 'low', label: 'Menipis' },
+  { value: 'out', label: 'Habis' },
+];
+
+// Rupiah input: digits only, empty for no bound
+const parsePrice = (text: string) => {
+  const digits = text.replace(/\D/g, '');
+  return digits === '' ? null : Number(digits);
+};
 
 // Komponen untuk item produk dengan memoization
-const ProductItem = React.memo(({ item, index, onEdit, onDelete, showBrandHeader }: {
-  item: InventoryItem;
+const ProductItem = React.memo(({ item, index, onEdit, onEditPhoto, onDelete, onShowUnits, onShowMovements, showBrandHeader, focusUnitCode, selected, onToggleSelect, physicalStock, lowStock, thumbnailUri }: {
+  item: Product;
   index: number;
-  onEdit: (item: InventoryItem) => void;
-  onDelete: (id: number) => void;
+  // Omitted when the user's role may not edit / delete products
+  onEdit?: (item: Product) => void;
+  onEditPhoto?: (item: Product) => void;
+  onDelete?: (id: number) => void;
+  onShowUnits: (item: Product) => void;
+  onShowMovements: (item: Product) => void;
   showBrandHeader: boolean;
+  // Unit from a scanned label link; its QR is shown right away
+  focusUnitCode?: string;
+  // Set while picking products for label printing or a bulk price change
+  selected?: boolean;
+  onToggleSelect?: (item: Product) => void;
+  // Units counted so far in the running stock-take; undefined when the product is not being counted
+  physicalStock?: number;
+  // Below the minimum set in services/stockThresholds.ts
+  lowStock: boolean;
+  // Downloaded thumbnail (services/productPhotos.ts), or the remote one until it is cached
+  thumbnailUri: string | null;
 }) => {
-  const [showQR, setShowQR] = useState(false);
+  const [showQR, setShowQR] = useState(Boolean(focusUnitCode));
 
   if (!item || !item.name || !item.id) {
     console.warn('Item produk tidak valid:', item);
@@ -73,30 +123,47 @@ const ProductItem = React.memo(({ item, index, onEdit, onDelete, showBrandHeader
   const model = item.model ? item.model.replace(/['"]/g, '').replace(/\n/g, '') : '-';
   const rowNumber = index + 1;
   const stock = item.stock || 0;
-  const physicalStock = stock;
-  const unit = item.units && item.units.length > 0 ? item.units[0] : { unit_code: '-', qr_code: null };
+  const unit =
+    item.units.find((candidate) => focusUnitCode && normalizeUnitCode(candidate.unit_code) === normalizeUnitCode(focusUnitCode)) ??
+    (item.units.length > 0 ? item.units[0] : null);
 
-  const isValidUrl = (url: string) => {
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
-    }
-  };
-
-  const unitCode = unit.unit_code || '-';
-  const qrCodeData = unit.qr_code && isValidUrl(unit.qr_code)
-    ? unit.qr_code
-    : `https://testingaplikasi.tokosepatusovan.com/inventory/${item.id}/unit/${unitCode}`;
-  const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=100x100&data=${encodeURIComponent(qrCodeData)}&t=${Date.now()}`;
+  const unitCode = unit ? unit.unit_code : '-';
+  const qrCodeData = unit ? unit.qr_code : unitQrPayload(item.id, unitCode);
 
   return (
     <View style={styles.cardContainer}>
       {showBrandHeader && (
         <Text style={styles.brandHeader}>{brand.toUpperCase()}</Text>
       )}
-      <View style={styles.productCard}>
+      <View style={[styles.productCard, selected && styles.productCardSelected]}>
+        {onToggleSelect && (
+          <TouchableOpacity style={styles.cardRow} onPress={() => onToggleSelect(item)}>
+            <Text style={styles.cardLabel}>Pilih:</Text>
+            <View style={styles.actions}>
+              <Ionicons name={selected ? 'checkbox' : 'square-outline'} size={20} color="#2563EB" />
+              <Text style={styles.actionText}>{selected ? 'Dipilih' : 'Pilih'}</Text>
+            </View>
+          </TouchableOpacity>
+        )}
+        {(thumbnailUri || onEditPhoto) && (
+          <View style={styles.cardRow}>
+            <Text style={styles.cardLabel}>Foto:</Text>
+            <View style={styles.photoRow}>
+              {thumbnailUri ? (
+                <Image source={{ uri: thumbnailUri }} style={styles.thumbnail} contentFit="cover" />
+              ) : (
+                <View style={[styles.thumbnail, styles.thumbnailEmpty]}>
+                  <Ionicons name="image-outline" size={24} color="#9CA3AF" />
+                </View>
+              )}
+              {onEditPhoto && (
+                <TouchableOpacity onPress={() => onEditPhoto(item)}>
+                  <Text style={styles.actionText}>{thumbnailUri ? 'Ganti foto' : 'Tambah foto'}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
         <View style={styles.cardRow}>
           <Text style={styles.cardLabel}>No:</Text>
           <Text style={styles.cardValue}>{rowNumber}</Text>
@@ -119,22 +186,24 @@ const ProductItem = React.memo(({ item, index, onEdit, onDelete, showBrandHeader
         </View>
         <View style={styles.cardRow}>
           <Text style={styles.cardLabel}>Stok:</Text>
-          <Text style={[styles.cardValue, stock < 5 ? styles.lowStock : null]}>{stock}</Text>
+          <Text style={[styles.cardValue, lowStock ? styles.lowStock : null]}>{stock}</Text>
         </View>
         <View style={styles.cardRow}>
           <Text style={styles.cardLabel}>Fisik:</Text>
-          <Text style={styles.cardValue}>{physicalStock}</Text>
+          <Text style={[styles.cardValue, physicalStock !== undefined && physicalStock !== stock ? styles.lowStock : null]}>
+            {physicalStock ?? '-'}
+          </Text>
         </View>
         <View style={styles.cardRow}>
           <Text style={styles.cardLabel}>Harga:</Text>
           <Text style={styles.cardValue} numberOfLines={1} ellipsizeMode="tail">
-            Rp {new Intl.NumberFormat('id-ID').format(parseFloat(item.selling_price) || 0)}
+            Rp {new Intl.NumberFormat('id-ID').format(item.selling_price)}
           </Text>
         </View>
         <View style={styles.cardRow}>
           <Text style={styles.cardLabel}>Diskon:</Text>
           <Text style={styles.cardValue} numberOfLines={1} ellipsizeMode="tail">
-            {item.discount_price ? `Rp ${new Intl.NumberFormat('id-ID').format(parseFloat(item.discount_price))}` : '-'}
+            {hasDiscount(item) ? `Rp ${new Intl.NumberFormat('id-ID').format(effectivePrice(item))}` : '-'}
           </Text>
         </View>
         <View style={styles.cardRow}>
@@ -144,24 +213,38 @@ const ProductItem = React.memo(({ item, index, onEdit, onDelete, showBrandHeader
           </TouchableOpacity>
         </View>
         <View style={styles.cardRow}>
-          <Text style={styles.cardLabel}>Aksi:</Text>
-          <View style={styles.actions}>
-            <TouchableOpacity onPress={() => onEdit(item)}>
-              <Text style={styles.actionText}>Edit</Text>
-            </TouchableOpacity>
-            <TouchableOpacity onPress={() => onDelete(item.id)}>
-              <Text style={[styles.actionText, { color: '#DC2626' }]}>Hapus</Text>
-            </TouchableOpacity>
-          </View>
+          <Text style={styles.cardLabel}>Unit:</Text>
+          <TouchableOpacity onPress={() => onShowUnits(item)}>
+            <Text style={styles.qrToggleText}>Lihat {item.units.length} unit</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.cardRow}>
+          <Text style={styles.cardLabel}>Riwayat:</Text>
+          <TouchableOpacity onPress={() => onShowMovements(item)}>
+            <Text style={styles.qrToggleText}>Lihat riwayat stok</Text>
+          </TouchableOpacity>
         </View>
+        {(onEdit || onDelete) && (
+          <View style={styles.cardRow}>
+            <Text style={styles.cardLabel}>Aksi:</Text>
+            <View style={styles.actions}>
+              {onEdit && (
+                <TouchableOpacity onPress={() => onEdit(item)}>
+                  <Text style={styles.actionText}>Edit</Text>
+                </TouchableOpacity>
+              )}
+              {onDelete && (
+                <TouchableOpacity onPress={() => onDelete(item.id)}>
+                  <Text style={[styles.actionText, { color: '#DC2626' }]}>Hapus</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
         {showQR && (
           <View style={styles.qrContainer}>
             <Text style={styles.qrUnitCode}>Kode Unit: {unitCode}</Text>
-            <Image
-              source={{ uri: qrCodeUrl }}
-              style={styles.qrCode}
-              onError={(e) => console.error(`Gagal memuat QR code untuk produk ${item.id}: ${e.nativeEvent.error}`)}
-            />
+            <QrCode value={qrCodeData} size={100} />
           </View>
         )}
       </View>
@@ -175,15 +258,31 @@ export default function InventoryScreen() {
     products: [],
     searchTerm: '',
     sizeTerm: '',
-    editItem: null,
     brandCounts: {},
     selectedBrand: 'all',
     isLoading: false,
     errorMessage: '',
     currentPage: 1,
+    filters: DEFAULT_FILTERS,
+    sort: 'newest',
   });
 
   const itemsPerPage = 20;
+  const { can } = usePermissions();
+  const canEdit = can('inventory.edit');
+  const canDelete = can('inventory.delete');
+  const { thresholds } = useStockThresholds();
+  const thumbnails = useProductThumbnails();
+  const route = useRoute<RouteProp<RootStackParamList, 'Inventory'>>();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'Inventory'>>();
+  const linkedProductId = route.params?.productId;
+  const linkedUnitCode = route.params?.unitCode;
+  // Products picked for label printing or bulk pricing; null outside selection mode
+  const [selectedIds, setSelectedIds] = useState<Set<number> | null>(null);
+  const [countedStocks, setCountedStocks] = useState<Map<number, number>>(new Map());
+  const [showFilters, setShowFilters] = useState(false);
+  const [presets, setPresets] = useState<InventoryPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
 
   // Sanitize string
   const sanitizeString = useCallback((str: string) => {
@@ -191,7 +290,7 @@ export default function InventoryScreen() {
   }, []);
 
   // Update brand counts
-  const updateBrandCounts = useCallback((productList: InventoryItem[]) => {
+  const updateBrandCounts = useCallback((productList: Product[]) => {
     const counts = productList.reduce((acc, product) => {
       const brand = sanitizeString(product.brand) || 'Unknown';
       acc[brand] = (acc[brand] || 0) + (product.stock || 0);
@@ -208,11 +307,13 @@ export default function InventoryScreen() {
         sizeTerm: state.sizeTerm,
         selectedBrand: state.selectedBrand,
         currentPage: state.currentPage,
+        filters: state.filters,
+        sort: state.sort,
       }));
     } catch (error) {
       console.error('Gagal menyimpan state ke AsyncStorage:', error);
     }
-  }, [state.searchTerm, state.sizeTerm, state.selectedBrand, state.currentPage]);
+  }, [state.searchTerm, state.sizeTerm, state.selectedBrand, state.currentPage, state.filters, state.sort]);
 
   // Load state from AsyncStorage
   const loadStateFromStorage = useCallback(async () => {
@@ -226,6 +327,9 @@ export default function InventoryScreen() {
           sizeTerm: parsedState.sizeTerm || '',
           selectedBrand: parsedState.selectedBrand || 'all',
           currentPage: parsedState.currentPage || 1,
+          // State saved before filters existed has none; missing keys fall back to the defaults
+          filters: { ...DEFAULT_FILTERS, ...parsedState.filters },
+          sort: parsedState.sort || 'newest',
         }));
       }
     } catch (error) {
@@ -233,138 +337,67 @@ export default function InventoryScreen() {
     }
   }, []);
 
-  // Save products to AsyncStorage
-  const saveProductsToStorage = useCallback(async (products: InventoryItem[]) => {
-    try {
-      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(products));
-      await AsyncStorage.setItem(CACHE_TIMESTAMP_KEY, Date.now().toString());
-    } catch (error) {
-      console.error('Gagal menyimpan produk ke AsyncStorage:', error);
-    }
-  }, []);
-
-  // Load products from AsyncStorage
-  const loadProductsFromStorage = useCallback(async () => {
-    try {
-      const cachedProducts = await AsyncStorage.getItem(CACHE_KEY);
-      const timestamp = await AsyncStorage.getItem(CACHE_TIMESTAMP_KEY);
-      if (cachedProducts && timestamp) {
-        const age = Date.now() - parseInt(timestamp, 10);
-        if (age < CACHE_VALIDITY_DURATION) {
-          const products = JSON.parse(cachedProducts);
-          if (Array.isArray(products)) {
-            setState((prev) => ({ ...prev, products, isLoading: false }));
-            updateBrandCounts(products);
-            return true;
-          }
-        }
-      }
-      return false;
-    } catch (error) {
-      console.error('Gagal memuat produk dari AsyncStorage:', error);
-      return false;
-    }
+  // Show the local product copy right away, before the network sync finishes
+  const loadLocalProducts = useCallback(async () => {
+    const products = await getLocalProducts();
+    if (!products) return false;
+    setState((prev) => ({ ...prev, products }));
+    updateBrandCounts(products);
+    return true;
   }, [updateBrandCounts]);
 
-  // Clear cache
-  const clearCache = useCallback(async () => {
-    try {
-      await AsyncStorage.removeItem(CACHE_KEY);
-      await AsyncStorage.removeItem(CACHE_TIMESTAMP_KEY);
-      console.log('Cache AsyncStorage berhasil dibersihkan');
-    } catch (error) {
-      console.error('Gagal membersihkan cache:', error);
-    }
-  }, []);
-
-  // Fetch all products
-  const fetchAllProducts = useCallback(async (search = '', size = '') => {
+  // Sync products: only changes since the last sync are downloaded and merged into the local copy
+  const fetchAllProducts = useCallback(async (full = false) => {
     setState((prev) => ({ ...prev, isLoading: true, errorMessage: '' }));
     try {
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        setState((prev) => ({ ...prev, isLoading: false, errorMessage: 'Silakan login terlebih dahulu.' }));
-        Alert.alert('Error', 'Silakan login terlebih dahulu.');
-        return;
-      }
-
-      let allProducts: InventoryItem[] = [];
-      let currentApiPage = 1;
-      let lastPage = 1;
-      const perPage = 100;
-      const maxRetries = 3;
-
-      do {
-        let retries = 0;
-        let success = false;
-        while (retries < maxRetries && !success) {
-          try {
-            const url = new URL('https://testingaplikasi.tokosepatusovan.com/api/products');
-            if (search) url.searchParams.set('search', search);
-            if (size) url.searchParams.set('size', size);
-            url.searchParams.set('page', currentApiPage.toString());
-            url.searchParams.set('per_page', perPage.toString());
-            url.searchParams.set('no_cache', 'true');
-            url.searchParams.set('order_by', 'created_at');
-            url.searchParams.set('sort', 'desc');
-
-            const response = await fetch(url.toString(), {
-              method: 'GET',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                'Content-Type': 'application/json',
-                Accept: 'application/json',
-                'Cache-Control': 'no-cache',
-              },
-            });
-
-            if (!response.ok) {
-              const errorText = await response.text();
-              throw new Error(`Gagal mengambil data (halaman ${currentApiPage}): ${response.status} ${errorText}`);
-            }
-
-            const data = await response.json();
-            const productData = data.data?.products || [];
-            if (!Array.isArray(productData)) {
-              throw new Error('Data produk dari API tidak valid.');
-            }
-
-            const validProducts = productData.filter(
-              (product: any) => product && product.id && product.name && typeof product.stock === 'number' && Array.isArray(product.units)
-            );
-            allProducts = [...allProducts, ...validProducts];
-            lastPage = data.data?.pagination?.last_page || 1;
-            success = true;
-          } catch (error) {
-            retries++;
-            if (retries >= maxRetries) {
-              throw error;
-            }
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-          }
-        }
-        currentApiPage++;
-      } while (currentApiPage <= lastPage);
+      const allProducts = await syncProducts({ full });
 
       if (allProducts.length === 0) {
-        setState((prev) => ({ ...prev, isLoading: false, errorMessage: 'Tidak ada produk ditemukan.' }));
+        setState((prev) => ({ ...prev, products: [], isLoading: false, errorMessage: 'Tidak ada produk ditemukan.' }));
       } else {
         setState((prev) => ({ ...prev, products: allProducts, isLoading: false }));
-        await saveProductsToStorage(allProducts);
         updateBrandCounts(allProducts);
+        // Photos download in the background; cards show the remote image until then
+        cacheProductThumbnails(allProducts).catch((error) => console.error('Gagal menyimpan foto produk:', error));
       }
     } catch (error) {
+      if (isUnauthorized(error)) {
+        setState((prev) => ({ ...prev, isLoading: false }));
+        return;
+      }
+      const message = error instanceof ApiError && error.kind === 'invalid_response'
+        ? error.message
+        : 'Tidak dapat memuat data inventaris. Silakan coba lagi nanti.';
+      // With a local copy on screen a failed sync is only reported in the list footer
+      const hasLocalCopy = (await getLocalProducts()) !== null;
       setState((prev) => ({
         ...prev,
         isLoading: false,
-        errorMessage: 'Tidak dapat memuat data inventaris. Silakan coba lagi nanti.',
+        errorMessage: hasLocalCopy ? `Menampilkan data tersimpan. ${message}` : message,
       }));
-      Alert.alert('Error', 'Tidak dapat memuat data inventaris. Silakan coba lagi nanti.');
+      if (!hasLocalCopy) {
+        Alert.alert('Error', message);
+      }
     }
-  }, [saveProductsToStorage, updateBrandCounts]);
+  }, [updateBrandCounts]);
+
+  // Every product of the selected brand, whatever the other filters are; a brand-wide price change covers all of them
+  const brandProducts = useMemo(
+    () =>
+      state.selectedBrand === 'all'
+        ? []
+        : state.products.filter((product) => sanitizeString(product.brand) === state.selectedBrand),
+    [state.products, state.selectedBrand, sanitizeString]
+  );
 
   // Filter products
   const filteredProducts = useMemo(() => {
+    // A product opened from a link is shown on its own, whatever the saved filters are
+    if (linkedProductId) {
+      const linked = state.products.filter((product) => product.id === linkedProductId);
+      updateBrandCounts(linked);
+      return linked;
+    }
     let filtered = state.products;
     if (state.selectedBrand !== 'all') {
       filtered = filtered.filter((product) => sanitizeString(product.brand) === state.selectedBrand);
@@ -383,9 +416,21 @@ export default function InventoryScreen() {
         (product) => product.size && sanitizeString(product.size).toLowerCase().includes(sizeLower)
       );
     }
+    filtered = applyInventoryFilters(filtered, state.filters, thresholds);
     updateBrandCounts(filtered);
-    return filtered;
-  }, [state.products, state.searchTerm, state.sizeTerm, state.selectedBrand, sanitizeString, updateBrandCounts]);
+    return sortInventory(filtered, state.sort);
+  }, [
+    state.products,
+    state.searchTerm,
+    state.sizeTerm,
+    state.selectedBrand,
+    state.filters,
+    state.sort,
+    thresholds,
+    linkedProductId,
+    sanitizeString,
+    updateBrandCounts,
+  ]);
 
   // Paginated products
   const paginatedProducts = useMemo(() => {
@@ -396,14 +441,14 @@ export default function InventoryScreen() {
   // Total pages
   const totalPages = Math.ceil(filteredProducts.length / itemsPerPage);
 
-  // Debounced search
+  // Debounced search; filtering runs on the local copy, the sync only picks up recent changes
   const debouncedSearch = useCallback(
     debounce((search: string, size: string) => {
       if (search.length < 2 && size.length < 1 && state.selectedBrand === 'all') {
         Alert.alert('Peringatan', 'Masukkan minimal 2 karakter untuk brand/model atau 1 karakter untuk ukuran.');
         return;
       }
-      fetchAllProducts(search, size);
+      fetchAllProducts();
     }, 500),
     [state.selectedBrand, fetchAllProducts]
   );
@@ -415,68 +460,9 @@ export default function InventoryScreen() {
     saveStateToStorage();
   }, [state.searchTerm, state.sizeTerm, debouncedSearch, saveStateToStorage]);
 
-  // Update product
-  const handleUpdateItem = useCallback(async () => {
-    if (!state.editItem) return;
-    try {
-      if (!state.editItem.name || !state.editItem.stock || !state.editItem.selling_price) {
-        Alert.alert('Error', 'Nama, stok, dan harga jual wajib diisi.');
-        return;
-      }
-
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        Alert.alert('Error', 'Silakan login terlebih dahulu.');
-        return;
-      }
-
-      const [brand, ...modelParts] = sanitizeString(state.editItem.name).split(' ');
-      const model = modelParts.join(' ') || '';
-
-      const response = await fetch(`https://testingaplikasi.tokosepatusovan.com/api/products/${state.editItem.id}/`, {
-        method: 'PUT',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          'Cache-Control': 'no-cache',
-        },
-        body: JSON.stringify({
-          brand: brand || 'Unknown',
-          model: model || '',
-          sizes: [{ size: sanitizeString(state.editItem.size) || 'N/A', stock: state.editItem.stock }],
-          color: sanitizeString(state.editItem.color) || null,
-          selling_price: parseFloat(state.editItem.selling_price) || 0,
-          discount_price: state.editItem.discount_price ? parseFloat(state.editItem.discount_price) : null,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Gagal memperbarui produk: ${response.status} ${errorText}`);
-      }
-
-      const updatedProduct = await response.json();
-      setState((prev) => ({
-        ...prev,
-        products: prev.products.map((p) =>
-          p.id === state.editItem!.id ? { ...p, ...updatedProduct.data, units: updatedProduct.data.units || [] } : p
-        ),
-        editItem: null,
-        currentPage: 1,
-        errorMessage: '',
-      }));
-      await saveProductsToStorage(state.products);
-      Alert.alert('Sukses', 'Produk berhasil diperbarui.');
-      await clearCache();
-      await fetchAllProducts();
-    } catch (error) {
-      Alert.alert('Error', (error as Error).message || 'Gagal memperbarui produk.');
-    }
-  }, [state.editItem, sanitizeString, clearCache, fetchAllProducts, saveProductsToStorage]);
-
   // Delete product
   const handleDeleteItem = useCallback((id: number) => {
+    if (!canDelete) return;
     Alert.alert(
       'Konfirmasi',
       'Apakah Anda yakin ingin menghapus produk ini?',
@@ -487,60 +473,117 @@ export default function InventoryScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const token = await AsyncStorage.getItem('token');
-              if (!token) {
-                Alert.alert('Error', 'Silakan login terlebih dahulu.');
-                return;
-              }
+              await api.delete(`/products/${id}/`);
 
-              const response = await fetch(`https://testingaplikasi.tokosepatusovan.com/api/products/${id}/`, {
-                method: 'DELETE',
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                  Accept: 'application/json',
-                  'Cache-Control': 'no-cache',
-                },
-              });
-
-              if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Gagal menghapus produk: ${response.status} ${errorText}`);
-              }
-
-              const updatedProducts = state.products.filter((p) => p.id !== id);
               setState((prev) => ({
                 ...prev,
-                products: updatedProducts,
+                products: prev.products.filter((p) => p.id !== id),
                 currentPage: 1,
                 errorMessage: '',
               }));
-              await saveProductsToStorage(updatedProducts);
+              await removeLocalProduct(id);
               Alert.alert('Sukses', 'Produk berhasil dihapus.');
-              await clearCache();
-              await fetchAllProducts();
             } catch (error) {
-              Alert.alert('Error', (error as Error).message || 'Gagal menghapus produk.');
+              const message = apiErrorMessage(error, 'Gagal menghapus produk.');
+              if (message) Alert.alert('Error', message);
             }
           },
         },
       ]
     );
-  }, [clearCache, fetchAllProducts, state.products, saveProductsToStorage]);
+  }, [canDelete]);
+
+  const toggleSelected = useCallback((item: Product) => {
+    setSelectedIds((prev) => {
+      if (!prev) return prev;
+      const next = new Set(prev);
+      if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const updateFilters = useCallback((changes: Partial<InventoryFilters>) => {
+    setState((prev) => ({ ...prev, filters: { ...prev.filters, ...changes }, currentPage: 1 }));
+  }, []);
+
+  const handleResetFilters = useCallback(() => {
+    setState((prev) => ({ ...prev, filters: DEFAULT_FILTERS, sort: 'newest', currentPage: 1 }));
+  }, []);
+
+  // A preset stores the search terms and brand too, so one tap restores the whole view
+  const handleSavePreset = useCallback(async () => {
+    const name = presetName.trim();
+    if (!name) {
+      Alert.alert('Peringatan', 'Masukkan nama preset.');
+      return;
+    }
+    setPresets(
+      await saveInventoryPreset({
+        name,
+        searchTerm: state.searchTerm,
+        sizeTerm: state.sizeTerm,
+        selectedBrand: state.selectedBrand,
+        filters: state.filters,
+        sort: state.sort,
+      })
+    );
+    setPresetName('');
+  }, [presetName, state.searchTerm, state.sizeTerm, state.selectedBrand, state.filters, state.sort]);
+
+  const handleApplyPreset = useCallback((preset: InventoryPreset) => {
+    setState((prev) => ({
+      ...prev,
+      searchTerm: preset.searchTerm,
+      sizeTerm: preset.sizeTerm,
+      selectedBrand: preset.selectedBrand,
+      filters: { ...DEFAULT_FILTERS, ...preset.filters },
+      sort: preset.sort,
+      currentPage: 1,
+    }));
+  }, []);
+
+  const handleDeletePreset = useCallback((preset: InventoryPreset) => {
+    Alert.alert('Hapus Preset', `Hapus preset "${preset.name}"?`, [
+      { text: 'Batal', style: 'cancel' },
+      {
+        text: 'Hapus',
+        style: 'destructive',
+        onPress: async () => setPresets(await deleteInventoryPreset(preset.name)),
+      },
+    ]);
+  }, []);
+
+  // Export what the list currently shows, including unit codes
+  const handleExportCsv = useCallback(async () => {
+    if (filteredProducts.length === 0) {
+      Alert.alert('Peringatan', 'Tidak ada produk untuk diekspor.');
+      return;
+    }
+    try {
+      await shareCsv(datedFileName('inventaris'), catalogCsv(filteredProducts), 'Ekspor Inventaris');
+    } catch (error) {
+      console.error('Gagal mengekspor inventaris:', error);
+      Alert.alert('Error', (error as Error).message || 'Gagal mengekspor inventaris.');
+    }
+  }, [filteredProducts]);
 
   // Sync on focus
   useFocusEffect(
     useCallback(() => {
       const checkAndSync = async () => {
         await loadStateFromStorage();
-        const cacheLoaded = await loadProductsFromStorage();
-        if (!cacheLoaded) {
-          await clearCache();
-          await fetchAllProducts();
-        }
+        setPresets(await getInventoryPresets());
+        await loadLocalProducts();
+        const stockTake = await getStockTake();
+        setCountedStocks(stockTake ? countedStock(stockTake) : new Map());
+        await fetchAllProducts();
       };
       checkAndSync();
-    }, [clearCache, fetchAllProducts, loadProductsFromStorage, loadStateFromStorage])
+    }, [fetchAllProducts, loadLocalProducts, loadStateFromStorage])
   );
 
   // Save state whenever it changes
@@ -555,9 +598,20 @@ export default function InventoryScreen() {
     <>
       <View style={styles.header}>
         <Text style={styles.title}>Manajemen Inventaris</Text>
-        <TouchableOpacity style={styles.refreshButton} onPress={() => fetchAllProducts(state.searchTerm, state.sizeTerm)}>
-          <Ionicons name="refresh" size={28} color="#FFFFFF" />
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity style={styles.refreshButton} onPress={() => setSelectedIds((prev) => (prev ? null : new Set()))}>
+            <Ionicons name={selectedIds ? 'close' : 'pricetags'} size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          {canEdit && (
+            <TouchableOpacity style={styles.refreshButton} onPress={() => navigation.navigate('ProductCreate')}>
+              <Ionicons name="add" size={28} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+          {/* Long press discards the local copy and downloads the whole catalog again */}
+          <TouchableOpacity style={styles.refreshButton} onPress={() => fetchAllProducts()} onLongPress={() => fetchAllProducts(true)}>
+            <Ionicons name="refresh" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Info Cards */}
@@ -575,16 +629,17 @@ export default function InventoryScreen() {
                 </View>
               </View>
             </View>
-            <View style={styles.infoCard}>
+            <TouchableOpacity style={styles.infoCard} onPress={() => navigation.navigate('ReorderReport')}>
               <View style={styles.infoCardGradient}>
                 <View style={styles.infoCardHeader}>
                   <Text style={styles.infoCardTitle}>Stok Menipis</Text>
                 </View>
                 <View style={styles.infoCardContent}>
-                  <Text style={styles.infoCardValue}>{filteredProducts.filter((p) => p && p.stock < 5).length}</Text>
+                  <Text style={styles.infoCardValue}>{filteredProducts.filter((p) => p && stockLevel(thresholds, p) !== 'ok').length}</Text>
+                  <Text style={styles.qrToggleText}>Lihat laporan restock</Text>
                 </View>
               </View>
-            </View>
+            </TouchableOpacity>
           </View>
           <View style={styles.infoRow}>
             <View style={styles.infoCard}>
@@ -624,6 +679,18 @@ export default function InventoryScreen() {
                       {sanitizeString(state.selectedBrand).toUpperCase()}: {state.brandCounts[state.selectedBrand]} unit
                     </Text>
                   )}
+                  {canEdit && brandProducts.length > 0 && (
+                    <TouchableOpacity
+                      onPress={() =>
+                        navigation.navigate('BulkPricing', {
+                          productIds: brandProducts.map((product) => product.id),
+                          scope: `Brand ${sanitizeString(state.selectedBrand).toUpperCase()}`,
+                        })
+                      }
+                    >
+                      <Text style={styles.qrToggleText}>Ubah harga brand ini</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
               </View>
             </View>
@@ -631,6 +698,64 @@ export default function InventoryScreen() {
         </View>
       </View>
 
+      {/* Product opened from a link */}
+      {linkedProductId && (
+        <View style={styles.form}>
+          <Text style={styles.sectionTitle}>
+            {linkedUnitCode ? `Unit ${linkedUnitCode}` : `Produk #${linkedProductId}`}
+          </Text>
+          {!state.isLoading && filteredProducts.length === 0 && (
+            <Text style={styles.errorText}>Produk dari tautan tidak ditemukan di data inventaris.</Text>
+          )}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => navigation.setParams({ productId: undefined, unitCode: undefined })}
+          >
+            <Text style={styles.actionButtonText}>Tampilkan Semua</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Selection for label printing and bulk pricing */}
+      {selectedIds && (
+        <View style={styles.form}>
+          <Text style={styles.sectionTitle}>Pilih Produk</Text>
+          <Text style={styles.selectionText}>
+            {selectedIds.size} produk dipilih ·{' '}
+            {state.products
+              .filter((product) => selectedIds.has(product.id))
+              .reduce((sum, product) => sum + product.units.filter((unit) => !unit.sold_at).length, 0)}{' '}
+            label
+          </Text>
+          <View style={styles.selectionActions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.selectionButton]}
+              onPress={() => setSelectedIds(new Set(filteredProducts.map((product) => product.id)))}
+            >
+              <Text style={styles.actionButtonText}>Pilih Semua Hasil</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.selectionButton, selectedIds.size === 0 && styles.disabledButton]}
+              onPress={() => navigation.navigate('LabelPrint', { productIds: [...selectedIds] })}
+              disabled={selectedIds.size === 0}
+            >
+              <Text style={styles.actionButtonText}>Cetak ({selectedIds.size})</Text>
+            </TouchableOpacity>
+          </View>
+          {canEdit && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.selectionExtraButton, selectedIds.size === 0 && styles.disabledButton]}
+              onPress={() =>
+                navigation.navigate('BulkPricing', { productIds: [...selectedIds], scope: `${selectedIds.size} produk dipilih` })
+              }
+              disabled={selectedIds.size === 0}
+            >
+              <Text style={styles.actionButtonText}>Ubah Harga ({selectedIds.size})</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <View style={styles.searchInputWrapper}>
@@ -660,72 +785,160 @@ export default function InventoryScreen() {
         <TouchableOpacity style={styles.actionButton} onPress={handleSearch}>
           <Text style={styles.actionButtonText}>Cari</Text>
         </TouchableOpacity>
-      </View>
-
-      {/* Edit Form */}
-      {state.editItem && (
-        <View style={styles.form}>
-          <Text style={styles.sectionTitle}>Edit Produk</Text>
-          <TextInput
-            style={styles.input}
-            placeholder="Nama Produk (Brand Model)"
-            placeholderTextColor="#9CA3AF"
-            value={state.editItem.name}
-            onChangeText={(text) => setState((prev) => ({ ...prev, editItem: { ...prev.editItem!, name: text } }))}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Stok"
-            placeholderTextColor="#9CA3AF"
-            keyboardType="numeric"
-            value={state.editItem.stock.toString()}
-            onChangeText={(text) => setState((prev) => ({ ...prev, editItem: { ...prev.editItem!, stock: parseInt(text) || 0 } }))}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Ukuran"
-            placeholderTextColor="#9CA3AF"
-            value={state.editItem.size}
-            onChangeText={(text) => setState((prev) => ({ ...prev, editItem: { ...prev.editItem!, size: text } }))}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Warna"
-            placeholderTextColor="#9CA3AF"
-            value={state.editItem.color}
-            onChangeText={(text) => setState((prev) => ({ ...prev, editItem: { ...prev.editItem!, color: text } }))}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Harga Jual"
-            placeholderTextColor="#9CA3AF"
-            keyboardType="numeric"
-            value={state.editItem.selling_price}
-            onChangeText={(text) => setState((prev) => ({ ...prev, editItem: { ...prev.editItem!, selling_price: text } }))}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Harga Diskon"
-            placeholderTextColor="#9CA3AF"
-            keyboardType="numeric"
-            value={state.editItem.discount_price || ''}
-            onChangeText={(text) => setState((prev) => ({ ...prev, editItem: { ...prev.editItem!, discount_price: text } }))}
-          />
-          <View style={styles.formActions}>
-            <TouchableOpacity style={styles.actionButton} onPress={handleUpdateItem}>
-              <Text style={styles.actionButtonText}>Simpan</Text>
+        <TouchableOpacity style={[styles.actionButton, styles.fullWidthButton]} onPress={() => setShowFilters((prev) => !prev)}>
+          <Text style={styles.actionButtonText}>
+            {showFilters ? 'Tutup Filter' : 'Filter & Urutkan'}
+            {activeFilterCount(state.filters) > 0 ? ` (${activeFilterCount(state.filters)})` : ''}
+          </Text>
+        </TouchableOpacity>
+        {showFilters && (
+          <View style={styles.filterPanel}>
+            <Text style={styles.filterLabel}>Warna & Kode Unit</Text>
+            <View style={styles.filterRow}>
+              <TextInput
+                style={styles.filterInput}
+                placeholder="Warna"
+                placeholderTextColor="#9CA3AF"
+                value={state.filters.color}
+                onChangeText={(text) => updateFilters({ color: text })}
+              />
+              <TextInput
+                style={styles.filterInput}
+                placeholder="Kode unit"
+                placeholderTextColor="#9CA3AF"
+                value={state.filters.unitCode}
+                onChangeText={(text) => updateFilters({ unitCode: text })}
+                autoCapitalize="characters"
+              />
+            </View>
+            <Text style={styles.filterLabel}>Harga (setelah diskon)</Text>
+            <View style={styles.filterRow}>
+              <TextInput
+                style={styles.filterInput}
+                placeholder="Minimum"
+                placeholderTextColor="#9CA3AF"
+                value={state.filters.minPrice?.toString() ?? ''}
+                onChangeText={(text) => updateFilters({ minPrice: parsePrice(text) })}
+                keyboardType="number-pad"
+              />
+              <TextInput
+                style={styles.filterInput}
+                placeholder="Maksimum"
+                placeholderTextColor="#9CA3AF"
+                value={state.filters.maxPrice?.toString() ?? ''}
+                onChangeText={(text) => updateFilters({ maxPrice: parsePrice(text) })}
+                keyboardType="number-pad"
+              />
+            </View>
+            <Text style={styles.filterLabel}>Stok</Text>
+            <View style={styles.chips}>
+              {STOCK_FILTERS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, state.filters.stock === option.value && styles.chipSelected]}
+                  onPress={() => updateFilters({ stock: option.value })}
+                >
+                  <Text style={[styles.chipText, state.filters.stock === option.value && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.chip, state.filters.discountOnly && styles.chipSelected]}
+                onPress={() => updateFilters({ discountOnly: !state.filters.discountOnly })}
+              >
+                <Text style={[styles.chipText, state.filters.discountOnly && styles.chipTextSelected]}>Hanya Diskon</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.filterLabel}>Urutkan</Text>
+            <View style={styles.chips}>
+              {SORT_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, state.sort === option.value && styles.chipSelected]}
+                  onPress={() => setState((prev) => ({ ...prev, sort: option.value, currentPage: 1 }))}
+                >
+                  <Text style={[styles.chipText, state.sort === option.value && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.filterLabel}>Preset</Text>
+            {presets.length > 0 ? (
+              <>
+                <View style={styles.chips}>
+                  {presets.map((preset) => (
+                    <TouchableOpacity
+                      key={preset.name}
+                      style={styles.chip}
+                      onPress={() => handleApplyPreset(preset)}
+                      onLongPress={() => handleDeletePreset(preset)}
+                    >
+                      <Text style={styles.chipText}>{preset.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.filterHint}>Tekan preset untuk memakainya, tekan lama untuk menghapus.</Text>
+              </>
+            ) : (
+              <Text style={styles.filterHint}>Belum ada preset.</Text>
+            )}
+            <View style={styles.filterRow}>
+              <TextInput
+                style={styles.filterInput}
+                placeholder="Nama preset"
+                placeholderTextColor="#9CA3AF"
+                value={presetName}
+                onChangeText={setPresetName}
+                returnKeyType="done"
+                onSubmitEditing={handleSavePreset}
+              />
+              <TouchableOpacity style={styles.actionButton} onPress={handleSavePreset}>
+                <Text style={styles.actionButtonText}>Simpan Preset</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity style={[styles.actionButton, styles.resetButton]} onPress={handleResetFilters}>
+              <Text style={styles.actionButtonText}>Reset Filter</Text>
             </TouchableOpacity>
+          </View>
+        )}
+        <View style={styles.csvActions}>
+          <TouchableOpacity style={[styles.actionButton, styles.selectionButton]} onPress={handleExportCsv}>
+            <Text style={styles.actionButtonText}>Ekspor CSV ({filteredProducts.length})</Text>
+          </TouchableOpacity>
+          {canEdit && (
             <TouchableOpacity
-              style={[styles.actionButton, styles.cancelButton]}
-              onPress={() => setState((prev) => ({ ...prev, editItem: null }))}
+              style={[styles.actionButton, styles.selectionButton]}
+              onPress={() => navigation.navigate('CatalogImport')}
             >
-              <Text style={styles.actionButtonText}>Batal</Text>
+              <Text style={styles.actionButtonText}>Impor CSV</Text>
             </TouchableOpacity>
-          </View>
+          )}
         </View>
-      )}
+      </View>
     </>
-  ), [state, filteredProducts, handleSearch, handleUpdateItem, fetchAllProducts, sanitizeString]);
+  ), [
+    state,
+    filteredProducts,
+    brandProducts,
+    handleSearch,
+    handleExportCsv,
+    fetchAllProducts,
+    sanitizeString,
+    canEdit,
+    linkedProductId,
+    linkedUnitCode,
+    navigation,
+    selectedIds,
+    thresholds,
+    showFilters,
+    presets,
+    presetName,
+    updateFilters,
+    handleResetFilters,
+    handleSavePreset,
+    handleApplyPreset,
+    handleDeletePreset,
+  ]);
 
   // Render footer component
   const renderFooter = useCallback(() => (
@@ -739,7 +952,7 @@ export default function InventoryScreen() {
       {state.errorMessage && (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{state.errorMessage}</Text>
-          <TouchableOpacity style={styles.actionButton} onPress={() => fetchAllProducts(state.searchTerm, state.sizeTerm)}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => fetchAllProducts()}>
             <Text style={styles.actionButtonText}>Coba Lagi</Text>
           </TouchableOpacity>
         </View>
@@ -775,20 +988,29 @@ export default function InventoryScreen() {
 
   // Render item
   const renderItem = useCallback(
-    ({ item, index }: { item: InventoryItem; index: number }) => {
+    ({ item, index }: { item: Product; index: number }) => {
       const showBrandHeader =
         index === 0 || (paginatedProducts[index - 1] && paginatedProducts[index - 1].brand !== item.brand);
       return (
         <ProductItem
           item={item}
           index={(state.currentPage - 1) * itemsPerPage + index}
-          onEdit={(item) => setState((prev) => ({ ...prev, editItem: item }))}
-          onDelete={handleDeleteItem}
+          onEdit={canEdit ? (item) => navigation.navigate('ProductVariants', { productId: item.id }) : undefined}
+          onEditPhoto={canEdit ? (item) => navigation.navigate('ProductPhoto', { productId: item.id }) : undefined}
+          onDelete={canDelete ? handleDeleteItem : undefined}
+          onShowUnits={(item) => navigation.navigate('ProductUnits', { productId: item.id })}
+          onShowMovements={(item) => navigation.navigate('StockMovements', { productId: item.id })}
           showBrandHeader={showBrandHeader}
+          focusUnitCode={linkedUnitCode}
+          selected={selectedIds?.has(item.id)}
+          onToggleSelect={selectedIds ? toggleSelected : undefined}
+          physicalStock={countedStocks.get(item.id)}
+          lowStock={stockLevel(thresholds, item) !== 'ok'}
+          thumbnailUri={thumbnails[item.id] ?? item.thumbnail_url ?? item.photo_url}
         />
       );
     },
-    [state.currentPage, handleDeleteItem, paginatedProducts]
+    [state.currentPage, canEdit, canDelete, handleDeleteItem, paginatedProducts, linkedUnitCode, navigation, selectedIds, toggleSelected, countedStocks, thresholds, thumbnails]
   );
 
   return (
@@ -803,7 +1025,7 @@ export default function InventoryScreen() {
         maxToRenderPerBatch={itemsPerPage}
         windowSize={2}
         removeClippedSubviews={true}
-        extraData={state.products}
+        extraData={[state.products, selectedIds]}
         getItemLayout={(data, index) => ({
           length: 300, // Approximate height of a card including QR code
           offset: 300 * index,
@@ -846,6 +1068,10 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     textTransform: 'uppercase',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   refreshButton: {
     padding: 12,
     backgroundColor: '#2563EB',
@@ -965,6 +1191,69 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 4,
   },
+  csvActions: {
+    flexDirection: 'row',
+    gap: 8,
+    width: '100%',
+  },
+  fullWidthButton: {
+    width: '100%',
+  },
+  filterPanel: {
+    width: '100%',
+    gap: 8,
+  },
+  filterLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1F2937',
+    textTransform: 'uppercase',
+  },
+  filterHint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  filterInput: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    color: '#1E3A8A',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  resetButton: {
+    backgroundColor: '#6B7280',
+  },
   searchInputWrapper: {
     flex: 1,
     flexDirection: 'row',
@@ -998,22 +1287,6 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 4,
   },
-  input: {
-    backgroundColor: '#F9FAFB',
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingVertical: 10,
-    fontSize: 16,
-    color: '#1F2937',
-    borderWidth: 1,
-    borderColor: '#E5E7EB',
-    marginBottom: 8,
-  },
-  formActions: {
-    flexDirection: 'row',
-    gap: 8,
-    justifyContent: 'center',
-  },
   cardContainer: {
     width: width - 32,
     alignSelf: 'center',
@@ -1031,6 +1304,10 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  productCardSelected: {
+    borderColor: '#2563EB',
+    borderWidth: 2,
+  },
   cardRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1052,6 +1329,24 @@ const styles = StyleSheet.create({
   lowStock: {
     color: '#DC2626',
   },
+  photoRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+  },
+  thumbnailEmpty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
   qrToggleText: {
     color: '#2563EB',
     fontSize: 12,
@@ -1092,10 +1387,6 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginBottom: 8,
   },
-  qrCode: {
-    width: 100,
-    height: 100,
-  },
   errorContainer: {
     alignItems: 'center',
     padding: 20,
@@ -1137,6 +1428,22 @@ const styles = StyleSheet.create({
     color: '#1E3A8A',
     fontWeight: '600',
   },
+  selectionText: {
+    fontSize: 14,
+    color: '#1F2937',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  selectionActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  selectionButton: {
+    flex: 1,
+  },
+  selectionExtraButton: {
+    marginTop: 8,
+  },
   paginationContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1156,9 +1463,6 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 4,
   },
-  cancelButton: {
-    backgroundColor: '#DC2626',
-  },
   disabledButton: {
     backgroundColor: '#E5E7EB',
   },
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { RouteProp, useRoute } from '@react-navigation/native';
+import { WebView } from 'react-native-webview';
+import { Product } from '@/services/domain';
+import { LABEL_LAYOUTS, LabelLayout, printLabels, toUnitLabels, unitLabelsHtml } from '@/services/labels';
+import { getLocalProducts } from '@/services/productSync';
+
+type RootStackParamList = {
+  // `unitCodes` limits the batch to specific units, e.g. freshly regenerated codes
+  LabelPrint: { productIds: number[]; unitCodes?: string[] };
+};
+
+// Preview and print a batch of unit labels in the chosen layout
+const LabelPrint = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'LabelPrint'>>();
+  const { productIds, unitCodes } = route.params;
+  const [products, setProducts] = useState<Product[] | null>(null);
+  const [layout, setLayout] = useState<LabelLayout>('a4');
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    getLocalProducts().then((local) => {
+      const wanted = new Set(productIds);
+      setProducts((local ?? []).filter((product) => wanted.has(product.id)));
+    });
+  }, [productIds]);
+
+  const labels = useMemo(() => (products ? toUnitLabels(products, unitCodes) : []), [products, unitCodes]);
+  const html = useMemo(() => unitLabelsHtml(labels, layout), [labels, layout]);
+
+  const handlePrint = async () => {
+    setPrinting(true);
+    try {
+      await printLabels(labels, layout);
+    } catch (error) {
+      console.error('Gagal mencetak label:', error);
+      Alert.alert('Error', 'Gagal mencetak label. Periksa printer lalu coba lagi.');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  if (!products) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <Text style={styles.summary}>
+          {labels.length} label dari {products.length} produk
+        </Text>
+        <View style={styles.layouts}>
+          {LABEL_LAYOUTS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.layoutChip, layout === option.value && styles.layoutChipSelected]}
+              onPress={() => setLayout(option.value)}
+            >
+              <Text style={[styles.layoutText, layout === option.value && styles.layoutTextSelected]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {labels.length === 0 ? (
+        <View style={[styles.preview, styles.centered]}>
+          <Text style={styles.emptyText}>Tidak ada unit yang belum terjual untuk dicetak.</Text>
+        </View>
+      ) : (
+        <WebView style={styles.preview} originWhitelist={['*']} source={{ html }} scalesPageToFit />
+      )}
+
+      <TouchableOpacity
+        style={[styles.printButton, (labels.length === 0 || printing) && styles.disabledButton]}
+        onPress={handlePrint}
+        disabled={labels.length === 0 || printing}
+      >
+        {printing ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.printText}>Cetak {labels.length} Label</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  toolbar: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+  },
+  summary: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  layouts: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  layoutChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  layoutChipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  layoutText: {
+    color: '#BFDBFE',
+    fontWeight: '600',
+  },
+  layoutTextSelected: {
+    color: '#FFFFFF',
+  },
+  preview: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  printButton: {
+    backgroundColor: '#2563EB',
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  printText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default LabelPrint;
@@ -1,13 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet, Dimensions, ImageBackground, KeyboardAvoidingView, Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useNavigation } from '@react-navigation/native';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet, Dimensions, ImageBackground, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { CommonActions, RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { api, ApiError } from '@/services/api';
+import {
+  forgetCredentials,
+  getRememberedLogin,
+  isDeviceUnlockAvailable,
+  rememberCredentials,
+  unlockCredentials,
+} from '@/services/credentials';
+import { takeDeepLink } from '@/services/deepLinks';
+import { loginResponseSchema } from '@/services/schemas';
+import { startSession, takeReturnRoute } from '@/services/session';
+import { flushQueue } from '@/services/transactionQueue';
 
 const { width } = Dimensions.get('window');
 
 type RootStackParamList = {
-  Login: undefined;
+  Login: { sessionExpired?: boolean } | undefined;
   Dashboard: undefined;
   Logout: undefined;
   Inventory: undefined;
@@ -17,17 +28,7 @@ type RootStackParamList = {
 };
 
 type LoginNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
-
-interface LoginResponse {
-  pesan: string;
-  user: {
-    id: number;
-    nama: string;
-    email: string;
-    role: string;
-  };
-  token: string;
-}
+type LoginRouteProp = RouteProp<RootStackParamList, 'Login'>;
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState<string>('');
@@ -36,76 +37,102 @@ const Login: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(false);
   const [showPassword, setShowPassword] = useState<boolean>(false);
   const [rememberMe, setRememberMe] = useState<boolean>(false);
+  const [useDeviceUnlock, setUseDeviceUnlock] = useState<boolean>(false);
+  const [deviceUnlockAvailable, setDeviceUnlockAvailable] = useState<boolean>(false);
+  // Credentials are saved but locked behind fingerprint / device PIN
+  const [deviceUnlockSaved, setDeviceUnlockSaved] = useState<boolean>(false);
   const navigation = useNavigation<LoginNavigationProp>();
+  const route = useRoute<LoginRouteProp>();
+  const sessionExpired = route.params?.sessionExpired ?? false;
 
-  // Load saved credentials on component mount
-  useEffect(() => {
-    const loadCredentials = async () => {
-      try {
-        const savedEmail = await AsyncStorage.getItem('savedEmail');
-        const savedPassword = await AsyncStorage.getItem('savedPassword');
-        const savedRememberMe = await AsyncStorage.getItem('rememberMe');
-
-        if (savedEmail && savedPassword && savedRememberMe === 'true') {
-          setEmail(savedEmail);
-          setPassword(savedPassword);
-          setRememberMe(true);
-        }
-      } catch (err) {
-        console.error('Error loading credentials:', err);
-      }
-    };
-    loadCredentials();
-  }, []);
-
-  const handleLogin = async () => {
+  const signIn = useCallback(async (loginEmail: string, loginPassword: string, remember: boolean, deviceUnlock: boolean) => {
     setLoading(true);
     setError('');
 
     try {
-      const response = await fetch('https://testingaplikasi.tokosepatusovan.com/api/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email,
-          password,
-        }),
-      });
-
-      const data: LoginResponse = await response.json();
+      const data = await api.post('/login', { email: loginEmail, password: loginPassword }, { auth: false, schema: loginResponseSchema });
 
-      if (response.ok) {
-        console.log(data.pesan); // "Login sukses"
-        console.log(data.user); // Data user: id, nama, email, role
-        await AsyncStorage.setItem('token', data.token);
-        await AsyncStorage.setItem('user', JSON.stringify(data.user));
+      console.log(data.pesan); // "Login sukses"
+      console.log(data.user); // Data user: id, nama, email, role
+      await startSession(data.token, data.user);
+      // Sales queued while logged out can be sent now
+      flushQueue();
 
-        // Save credentials if "Remember Me" is checked
-        if (rememberMe) {
-          await AsyncStorage.setItem('savedEmail', email);
-          await AsyncStorage.setItem('savedPassword', password);
-          await AsyncStorage.setItem('rememberMe', 'true');
-        } else {
-          // Clear saved credentials if "Remember Me" is unchecked
-          await AsyncStorage.removeItem('savedEmail');
-          await AsyncStorage.removeItem('savedPassword');
-          await AsyncStorage.removeItem('rememberMe');
-        }
-
-        navigation.navigate('Dashboard');
+      // Save credentials (encrypted) if "Remember Me" is checked
+      if (remember) {
+        await rememberCredentials({ email: loginEmail, password: loginPassword, biometric: deviceUnlock });
       } else {
-        throw new Error(data.pesan || 'Login gagal');
+        // Clear saved credentials if "Remember Me" is unchecked
+        await forgetCredentials();
       }
+
+      // Open the link that was tapped while logged out, or return to the screen the user
+      // was on when their previous session expired
+      const returnTo = takeDeepLink() ?? (await takeReturnRoute(data.user.id));
+      const routes = returnTo && returnTo.name !== 'Dashboard'
+        ? [{ name: 'Dashboard' }, returnTo]
+        : [{ name: 'Dashboard' }];
+      navigation.dispatch(CommonActions.reset({ index: routes.length - 1, routes }));
     } catch (err) {
-      setError('Login gagal. Periksa email atau password.');
+      setError(
+        err instanceof ApiError && (err.kind === 'network' || err.kind === 'timeout' || err.kind === 'invalid_response')
+          ? err.message
+          : 'Login gagal. Periksa email atau password.'
+      );
       console.error(err);
     } finally {
       setLoading(false);
     }
+  }, [navigation]);
+
+  // Sign in with the saved credentials after a fingerprint / face / device PIN check
+  const handleDeviceUnlock = useCallback(async () => {
+    setError('');
+    try {
+      const credentials = await unlockCredentials();
+      if (!credentials) return;
+      setEmail(credentials.email);
+      await signIn(credentials.email, credentials.password, true, credentials.biometric);
+    } catch (err) {
+      console.error('Error unlocking credentials:', err);
+      setError('Verifikasi perangkat gagal. Masukkan password.');
+    }
+  }, [signIn]);
+
+  // Load saved credentials on component mount
+  useEffect(() => {
+    const loadCredentials = async () => {
+      try {
+        setDeviceUnlockAvailable(await isDeviceUnlockAvailable());
+        const saved = await getRememberedLogin();
+        if (!saved) return;
+
+        setEmail(saved.email);
+        setRememberMe(true);
+        setUseDeviceUnlock(saved.biometric);
+        if (saved.password !== null) {
+          setPassword(saved.password);
+        } else {
+          setDeviceUnlockSaved(true);
+          handleDeviceUnlock();
+        }
+      } catch (err) {
+        console.error('Error loading credentials:', err);
+      }
+    };
+    loadCredentials();
+  }, [handleDeviceUnlock]);
+
+  const toggleDeviceUnlock = async () => {
+    if (!useDeviceUnlock && !(await isDeviceUnlockAvailable())) {
+      Alert.alert('Tidak Tersedia', 'Aktifkan sidik jari atau kunci layar (PIN) di pengaturan perangkat terlebih dahulu.');
+      return;
+    }
+    setUseDeviceUnlock(!useDeviceUnlock);
   };
 
+  const handleLogin = () => signIn(email, password, rememberMe, useDeviceUnlock);
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -119,6 +146,9 @@ const Login: React.FC = () => {
           </View>
           <Text style={styles.loginTitle}>LOGIN</Text>
           <Text style={styles.welcomeText}>Welcome back! Please login to your account</Text>
+          {sessionExpired && (
+            <Text style={styles.sessionText}>Sesi Anda berakhir. Login kembali untuk melanjutkan pekerjaan terakhir.</Text>
+          )}
 
           <Text style={styles.fieldLabel}>Username</Text>
           <TextInput
@@ -159,6 +189,18 @@ const Login: React.FC = () => {
             <Text style={styles.rememberMeText}>Remember Me</Text>
           </View>
 
+          {rememberMe && deviceUnlockAvailable && (
+            <View style={styles.rememberMeContainer}>
+              <TouchableOpacity
+                style={[styles.checkbox, useDeviceUnlock && styles.checkboxChecked]}
+                onPress={toggleDeviceUnlock}
+              >
+                {useDeviceUnlock && <Text style={styles.checkboxText}>✓</Text>}
+              </TouchableOpacity>
+              <Text style={styles.rememberMeText}>Buka dengan sidik jari / PIN perangkat</Text>
+            </View>
+          )}
+
           {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
           <TouchableOpacity style={styles.forgotPassword}>
@@ -177,6 +219,16 @@ const Login: React.FC = () => {
             </Text>
             {loading && <ActivityIndicator size="small" color="#FFFFFF" style={{ marginLeft: 10 }} />}
           </TouchableOpacity>
+
+          {deviceUnlockSaved && (
+            <TouchableOpacity
+              style={[styles.unlockButton, loading && styles.loginButtonDisabled]}
+              onPress={handleDeviceUnlock}
+              disabled={loading}
+            >
+              <Text style={styles.loginButtonText}>MASUK DENGAN SIDIK JARI / PIN</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ImageBackground>
     </KeyboardAvoidingView>
@@ -234,6 +286,13 @@ const styles = StyleSheet.create({
     marginBottom: 30,
     textAlign: 'center',
   },
+  sessionText: {
+    fontSize: 13,
+    color: '#FF6B35',
+    marginTop: -18,
+    marginBottom: 20,
+    textAlign: 'center',
+  },
   fieldLabel: {
     fontSize: 16,
     color: '#FF6B35',
@@ -341,6 +400,16 @@ const styles = StyleSheet.create({
   loginButtonDisabled: {
     backgroundColor: '#FF8C66',
   },
+  unlockButton: {
+    width: '100%',
+    height: 50,
+    marginTop: 12,
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   loginButtonText: {
     fontSize: 16,
     fontWeight: 'bold',
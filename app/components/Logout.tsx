@@ -1,13 +1,97 @@
-import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { CommonActions, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { getUnfinishedWork, logout, UnfinishedWork } from '@/services/logout';
+
+type RootStackParamList = {
+  Login: undefined;
+  Logout: undefined;
+};
+
+type LogoutNavigationProp = StackNavigationProp<RootStackParamList, 'Logout'>;
+
+const unfinishedMessages = (work: UnfinishedWork) => [
+  ...(work.unsyncedSales > 0 ? [`${work.unsyncedSales} transaksi offline belum terkirim ke server.`] : []),
+  ...(work.stockTake ? ['Stok opname belum selesai.'] : []),
+  ...(work.receiving ? ['Penerimaan barang belum ditutup.'] : []),
+];
 
 const Logout = () => {
+  const navigation = useNavigation<LogoutNavigationProp>();
+  const [unfinished, setUnfinished] = useState<UnfinishedWork | null>(null);
+  const [loggingOut, setLoggingOut] = useState(false);
+
+  useEffect(() => {
+    getUnfinishedWork().then(setUnfinished);
+  }, []);
+
+  const openSessions = [
+    ...(unfinished?.stockTake ? ['Stok opname'] : []),
+    ...(unfinished?.receiving ? ['Penerimaan barang'] : []),
+  ];
+
+  const performLogout = async () => {
+    setLoggingOut(true);
+    try {
+      await logout();
+      // Replace the whole stack so the back button cannot reopen a protected screen
+      navigation.dispatch(CommonActions.reset({ index: 0, routes: [{ name: 'Login' }] }));
+    } catch (error) {
+      console.error('Gagal logout:', error);
+      Alert.alert('Error', 'Gagal logout. Silakan coba lagi.');
+      setLoggingOut(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    const work = await getUnfinishedWork();
+    setUnfinished(work);
+    const messages = unfinishedMessages(work);
+    if (messages.length === 0) {
+      performLogout();
+      return;
+    }
+    Alert.alert(
+      'Pekerjaan Belum Selesai',
+      `${messages.join('\n')}\n\nSemuanya akan hilang jika Anda logout sekarang. Tetap logout?`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        { text: 'Tetap Logout', style: 'destructive', onPress: performLogout },
+      ]
+    );
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Logout</Text>
-      <TouchableOpacity style={styles.button}>
-        <Text style={styles.buttonText}>Logout</Text>
+      <Text style={styles.message}>
+        Data inventory, keranjang yang belum selesai, antrean transaksi, stok opname, dan penerimaan barang yang
+        belum selesai di perangkat ini akan dihapus.
+      </Text>
+      {unfinished !== null && unfinished.unsyncedSales > 0 && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {unfinished.unsyncedSales} transaksi offline belum terkirim. Sambungkan perangkat ke internet dan tunggu
+            hingga terkirim sebelum logout.
+          </Text>
+        </View>
+      )}
+      {openSessions.length > 0 && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {openSessions.join(' dan ')} belum selesai. Selesaikan terlebih dahulu agar hasilnya tidak hilang.
+          </Text>
+        </View>
+      )}
+      <TouchableOpacity style={[styles.button, loggingOut && styles.buttonDisabled]} onPress={handleLogout} disabled={loggingOut}>
+        {loggingOut ? <ActivityIndicator color="white" /> : <Text style={styles.buttonText}>Logout</Text>}
       </TouchableOpacity>
+      {navigation.canGoBack() && (
+        <TouchableOpacity style={styles.cancelButton} onPress={() => navigation.goBack()} disabled={loggingOut}>
+          <Text style={styles.cancelText}>Batal</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -15,8 +99,14 @@ const Logout = () => {
 const styles = StyleSheet.create({
   container: { flex: 1, justifyContent: 'center', padding: 20, backgroundColor: '#f5f5f5' },
   title: { fontSize: 24, fontWeight: 'bold', textAlign: 'center', marginBottom: 20 },
+  message: { fontSize: 15, color: '#555', textAlign: 'center', marginBottom: 20 },
+  warning: { backgroundColor: '#FFF4E5', borderColor: '#FFA726', borderWidth: 1, borderRadius: 5, padding: 12, marginBottom: 20 },
+  warningText: { color: '#8A4B00', textAlign: 'center' },
   button: { backgroundColor: '#FF4444', padding: 10, borderRadius: 5, alignItems: 'center' },
+  buttonDisabled: { opacity: 0.6 },
   buttonText: { color: 'white', fontWeight: 'bold' },
+  cancelButton: { padding: 10, alignItems: 'center', marginTop: 10 },
+  cancelText: { color: '#555', fontWeight: 'bold' },
 });
 
-export default Logout;
\ No newline at end of file
+export default Logout;
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { formatRupiah } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import {
+  flushQueue,
+  isQueuedBy,
+  QueuedTransaction,
+  removeQueuedTransaction,
+  retryQueuedTransaction,
+  subscribeQueue,
+} from '@/services/transactionQueue';
+
+interface Props {
+  darkMode?: boolean;
+  // Load a rejected sale back into the form so the cashier can correct it
+  onFix: (item: QueuedTransaction) => void;
+}
+
+const statusLabel = (item: QueuedTransaction) => {
+  if (item.status === 'sending') return 'Mengirim...';
+  if (item.status === 'failed') return `Gagal: ${item.lastError || 'ditolak server'}`;
+  return item.lastError ? 'Menunggu koneksi (gagal terhubung)' : 'Menunggu koneksi';
+};
+
+// Sales waiting in the offline queue, with retry/fix/delete actions for the cashier.
+// Sales made under another account are listed for review only; that account has to send them.
+const PendingTransactions: React.FC<Props> = ({ darkMode = false, onFix }) => {
+  const [queue, setQueue] = useState<QueuedTransaction[]>([]);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const { user } = usePermissions();
+
+  useEffect(() => subscribeQueue(setQueue), []);
+
+  if (queue.length === 0) return null;
+
+  const own = queue.filter((item) => isQueuedBy(item, user?.id ?? null));
+  const pendingCount = own.filter((item) => item.status !== 'failed').length;
+  const failedCount = own.length - pendingCount;
+  const otherCount = queue.length - own.length;
+
+  const sendAll = async () => {
+    setSyncing(true);
+    try {
+      await flushQueue();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const confirmDelete = (item: QueuedTransaction) => {
+    Alert.alert(
+      'Hapus Transaksi Tertunda',
+      `Transaksi ${formatRupiah(item.total)} akan dihapus dan unitnya kembali tersedia. Lanjutkan?`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        { text: 'Hapus', style: 'destructive', onPress: () => removeQueuedTransaction(item.id) },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.card, darkMode && styles.cardDark]}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.title, darkMode && styles.textDark]}>Transaksi Tertunda</Text>
+        {own.length > 0 && (
+          <TouchableOpacity style={styles.button} onPress={sendAll} disabled={syncing}>
+            {syncing ? <ActivityIndicator size="small" color="#FFFFFF" /> : <Text style={styles.buttonText}>Kirim Semua</Text>}
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={[styles.summary, darkMode && styles.textDark]}>
+        {pendingCount} menunggu dikirim{failedCount > 0 ? `, ${failedCount} gagal` : ''}
+        {otherCount > 0 ? `, ${otherCount} dari akun lain` : ''}
+      </Text>
+      {queue.map((item) => {
+        const mine = isQueuedBy(item, user?.id ?? null);
+        return (
+          <View key={item.id} style={[styles.item, item.status === 'failed' && styles.itemFailed]}>
+            <Text style={[styles.itemText, darkMode && styles.textDark]}>
+              {new Date(item.createdAt).toLocaleString('id-ID', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+              {' · '}
+              {item.cart.length} unit · {formatRupiah(item.total)}
+            </Text>
+            <Text style={[styles.itemText, darkMode && styles.textDark]} numberOfLines={1}>
+              {item.cart.map((cartItem) => cartItem.unit_code).join(', ')}
+            </Text>
+            <Text style={[styles.status, item.status === 'failed' && styles.statusFailed]}>
+              {mine ? statusLabel(item) : 'Dibuat akun lain; masuk dengan akun tersebut untuk mengirimnya'}
+            </Text>
+            {mine && item.status !== 'sending' && (
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.button} onPress={() => retryQueuedTransaction(item.id)}>
+                  <Text style={styles.buttonText}>Kirim Ulang</Text>
+                </TouchableOpacity>
+                {item.status === 'failed' && (
+                  <>
+                    <TouchableOpacity style={styles.button} onPress={() => onFix(item)}>
+                      <Text style={styles.buttonText}>Perbaiki</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={() => confirmDelete(item)}>
+                      <Text style={styles.buttonText}>Hapus</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    marginVertical: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#F59E0B',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  cardDark: {
+    backgroundColor: '#2A3441',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E3A8A',
+  },
+  summary: {
+    fontSize: 12,
+    color: '#1F2937',
+    marginVertical: 8,
+  },
+  textDark: {
+    color: '#FFFFFF',
+  },
+  item: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  itemFailed: {
+    backgroundColor: 'rgba(220, 38, 38, 0.05)',
+  },
+  itemText: {
+    fontSize: 12,
+    color: '#1F2937',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B45309',
+    marginTop: 4,
+  },
+  statusFailed: {
+    color: '#DC2626',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    minWidth: 80,
+  },
+  deleteButton: {
+    backgroundColor: '#DC2626',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default PendingTransactions;
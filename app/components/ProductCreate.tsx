@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { api, apiErrorMessage } from '@/services/api';
+import { existingSizes, Product, ProductPayload, toProduct } from '@/services/domain';
+import { getLocalProducts, saveLocalProduct } from '@/services/productSync';
+import { productCreateResponseSchema } from '@/services/schemas';
+
+// Sizes offered as one-tap rows in the size/stock matrix
+const COMMON_SIZES = ['36', '37', '38', '39', '40', '41', '42', '43', '44', '45'];
+
+interface SizeRow {
+  size: string;
+  stock: string;
+}
+
+const emptyRow = (): SizeRow => ({ size: '', stock: '1' });
+
+type RootStackParamList = {
+  ProductCreate: undefined;
+  LabelPrint: { productIds: number[]; unitCodes?: string[] };
+};
+
+// New product with one row per size; the backend creates a product per size and one unit per pair in stock
+const ProductCreate = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'ProductCreate'>>();
+  const [brand, setBrand] = useState('');
+  const [model, setModel] = useState('');
+  const [color, setColor] = useState('');
+  const [sellingPrice, setSellingPrice] = useState('');
+  const [discountPrice, setDiscountPrice] = useState('');
+  const [rows, setRows] = useState<SizeRow[]>([emptyRow()]);
+  const [saving, setSaving] = useState(false);
+  const [created, setCreated] = useState<Product[] | null>(null);
+
+  const updateRow = (index: number, changes: Partial<SizeRow>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const removeRow = (index: number) =>
+    setRows((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [emptyRow()]));
+
+  const toggleSize = (size: string) =>
+    setRows((prev) => {
+      if (prev.some((row) => row.size.trim() === size)) {
+        const rest = prev.filter((row) => row.size.trim() !== size);
+        return rest.length > 0 ? rest : [emptyRow()];
+      }
+      const filled = prev.filter((row) => row.size.trim() !== '');
+      return [...filled, { size, stock: '1' }];
+    });
+
+  const resetForm = () => {
+    setBrand('');
+    setModel('');
+    setColor('');
+    setSellingPrice('');
+    setDiscountPrice('');
+    setRows([emptyRow()]);
+    setCreated(null);
+  };
+
+  // Payload for POST /products, or the first problem with the form
+  const buildPayload = (): { payload: ProductPayload } | { error: string } => {
+    if (!brand.trim() || !model.trim()) return { error: 'Brand dan model wajib diisi.' };
+    const selling = parseFloat(sellingPrice);
+    if (!Number.isFinite(selling) || selling <= 0) return { error: 'Harga jual harus lebih dari 0.' };
+    const discount = discountPrice.trim() ? parseFloat(discountPrice) : null;
+    if (discount !== null && (!Number.isFinite(discount) || discount < 0 || discount >= selling)) {
+      return { error: 'Harga diskon harus lebih kecil dari harga jual.' };
+    }
+
+    const sizes = rows
+      .filter((row) => row.size.trim() !== '' || row.stock.trim() !== '1')
+      .map((row) => ({ size: row.size.trim().toUpperCase(), stock: Number(row.stock) }));
+    if (sizes.length === 0) return { error: 'Tambahkan minimal satu ukuran.' };
+    if (sizes.some((entry) => !entry.size)) return { error: 'Setiap baris harus memiliki ukuran.' };
+    if (sizes.some((entry) => !Number.isInteger(entry.stock) || entry.stock < 1)) {
+      return { error: 'Stok setiap ukuran minimal 1.' };
+    }
+    const repeated = sizes.find((entry, index) => sizes.findIndex((other) => other.size === entry.size) !== index);
+    if (repeated) return { error: `Ukuran ${repeated.size} diisi lebih dari sekali.` };
+
+    return {
+      payload: {
+        brand: brand.trim(),
+        model: model.trim(),
+        color: color.trim() || null,
+        sizes,
+        selling_price: selling,
+        discount_price: discount,
+      },
+    };
+  };
+
+  const handleSave = async () => {
+    const result = buildPayload();
+    if ('error' in result) {
+      Alert.alert('Data Belum Lengkap', result.error);
+      return;
+    }
+    const { payload } = result;
+
+    const duplicates = existingSizes((await getLocalProducts()) ?? [], payload);
+    if (duplicates.length > 0) {
+      Alert.alert(
+        'Produk Sudah Ada',
+        `${payload.brand} ${payload.model}${payload.color ? ` ${payload.color}` : ''} ukuran ${duplicates.join(', ')} sudah ada di inventaris. Tambahkan stoknya lewat Edit.`
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.post('/products', payload, { schema: productCreateResponseSchema });
+      const products = response.data.map(toProduct);
+      for (const product of products) {
+        await saveLocalProduct(product);
+      }
+      setCreated(products);
+    } catch (error) {
+      const message = apiErrorMessage(error, 'Terjadi kesalahan. Silakan coba lagi.');
+      if (message) Alert.alert('Gagal Menyimpan Produk', message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (created) {
+    const unitCount = created.reduce((sum, product) => sum + product.units.length, 0);
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.form}>
+          <Text style={styles.sectionTitle}>Produk Tersimpan</Text>
+          {created.map((product) => (
+            <View key={product.id} style={styles.summaryRow}>
+              <Text style={styles.summaryText}>
+                {product.name} · Ukuran {product.size || '-'}
+              </Text>
+              <Text style={styles.summaryText}>{product.units.length} unit</Text>
+            </View>
+          ))}
+          {unitCount === 0 && (
+            <Text style={styles.hint}>Kode unit belum dikirim server; label bisa dicetak setelah sinkronisasi.</Text>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, unitCount === 0 && styles.disabledButton]}
+            onPress={() => navigation.navigate('LabelPrint', { productIds: created.map((product) => product.id) })}
+            disabled={unitCount === 0}
+          >
+            <Text style={styles.actionButtonText}>Cetak {unitCount} Label</Text>
+          </TouchableOpacity>
+          <View style={styles.formActions}>
+            <TouchableOpacity style={styles.actionButton} onPress={resetForm}>
+              <Text style={styles.actionButtonText}>Tambah Lagi</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={() => navigation.goBack()}>
+              <Text style={styles.actionButtonText}>Selesai</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Tambah Produk</Text>
+        <TextInput style={styles.input} placeholder="Brand" placeholderTextColor="#9CA3AF" value={brand} onChangeText={setBrand} />
+        <TextInput style={styles.input} placeholder="Model" placeholderTextColor="#9CA3AF" value={model} onChangeText={setModel} />
+        <TextInput style={styles.input} placeholder="Warna" placeholderTextColor="#9CA3AF" value={color} onChangeText={setColor} />
+        <TextInput
+          style={styles.input}
+          placeholder="Harga Jual"
+          placeholderTextColor="#9CA3AF"
+          keyboardType="numeric"
+          value={sellingPrice}
+          onChangeText={setSellingPrice}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Harga Diskon (opsional)"
+          placeholderTextColor="#9CA3AF"
+          keyboardType="numeric"
+          value={discountPrice}
+          onChangeText={setDiscountPrice}
+        />
+      </View>
+
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Ukuran & Stok</Text>
+        <View style={styles.chips}>
+          {COMMON_SIZES.map((size) => {
+            const selected = rows.some((row) => row.size.trim() === size);
+            return (
+              <TouchableOpacity key={size} style={[styles.chip, selected && styles.chipSelected]} onPress={() => toggleSize(size)}>
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{size}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {rows.map((row, index) => (
+          <View key={index} style={styles.matrixRow}>
+            <TextInput
+              style={[styles.input, styles.matrixInput]}
+              placeholder="Ukuran"
+              placeholderTextColor="#9CA3AF"
+              value={row.size}
+              onChangeText={(text) => updateRow(index, { size: text })}
+            />
+            <TextInput
+              style={[styles.input, styles.matrixInput]}
+              placeholder="Stok"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+              value={row.stock}
+              onChangeText={(text) => updateRow(index, { stock: text.replace(/\D/g, '') })}
+            />
+            <TouchableOpacity style={styles.removeButton} onPress={() => removeRow(index)}>
+              <Text style={styles.removeText}>Hapus</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity onPress={() => setRows((prev) => [...prev, emptyRow()])}>
+          <Text style={styles.addRowText}>+ Tambah Ukuran</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>
+          Total {rows.reduce((sum, row) => sum + (Number(row.stock) || 0), 0)} unit; kode unit dibuat otomatis oleh server.
+        </Text>
+      </View>
+
+      <TouchableOpacity style={[styles.actionButton, saving && styles.disabledButton]} onPress={handleSave} disabled={saving}>
+        {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.actionButtonText}>Simpan Produk</Text>}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 16,
+  },
+  form: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 16,
+    color: '#1E3A8A',
+    textTransform: 'uppercase',
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    color: '#1F2937',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  matrixRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  matrixInput: {
+    flex: 1,
+  },
+  removeButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  removeText: {
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  addRowText: {
+    color: '#2563EB',
+    fontWeight: '600',
+    marginVertical: 8,
+  },
+  hint: {
+    color: '#6B7280',
+    fontSize: 13,
+    marginVertical: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  summaryText: {
+    color: '#1F2937',
+    fontSize: 14,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 8,
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  secondaryButton: {
+    backgroundColor: '#4B5563',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ProductCreate;
@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Image } from 'expo-image';
+import * as MediaLibrary from 'expo-media-library';
+import { apiErrorMessage } from '@/services/api';
+import { Product } from '@/services/domain';
+import { uploadProductPhoto, useProductThumbnails } from '@/services/productPhotos';
+import { getLocalProducts } from '@/services/productSync';
+
+type RootStackParamList = {
+  ProductPhoto: { productId: number };
+};
+
+type Mode = 'view' | 'camera' | 'library';
+
+// Recent library photos offered for picking; older ones are rarely product shots
+const LIBRARY_PAGE = 60;
+
+// Take or pick the photo of one product and upload it
+const ProductPhoto = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'ProductPhoto'>>();
+  const { productId } = route.params;
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'ProductPhoto'>>();
+  const thumbnails = useProductThumbnails();
+  const [product, setProduct] = useState<Product | null | undefined>(undefined);
+  const [mode, setMode] = useState<Mode>('view');
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const [libraryPermission, requestLibraryPermission] = MediaLibrary.usePermissions({ granularPermissions: ['photo'] });
+  const [libraryAssets, setLibraryAssets] = useState<MediaLibrary.Asset[]>([]);
+  // Captured or picked image waiting to be uploaded
+  const [pickedUri, setPickedUri] = useState<string | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const cameraRef = useRef<CameraView>(null);
+
+  useEffect(() => {
+    getLocalProducts().then((products) => setProduct(products?.find((item) => item.id === productId) ?? null));
+  }, [productId]);
+
+  const openCamera = async () => {
+    if (!cameraPermission?.granted) {
+      const result = await requestCameraPermission();
+      if (!result.granted) {
+        Alert.alert('Izin Kamera', 'Izin kamera diperlukan untuk memotret produk.');
+        return;
+      }
+    }
+    setMode('camera');
+  };
+
+  const openLibrary = async () => {
+    if (!libraryPermission?.granted) {
+      const result = await requestLibraryPermission();
+      if (!result.granted) {
+        Alert.alert('Izin Galeri', 'Izin galeri diperlukan untuk memilih foto produk.');
+        return;
+      }
+    }
+    try {
+      const page = await MediaLibrary.getAssetsAsync({
+        mediaType: MediaLibrary.MediaType.photo,
+        sortBy: [[MediaLibrary.SortBy.creationTime, false]],
+        first: LIBRARY_PAGE,
+      });
+      setLibraryAssets(page.assets);
+      setMode('library');
+    } catch (error) {
+      console.error('Gagal memuat galeri:', error);
+      Alert.alert('Error', 'Gagal memuat foto dari galeri.');
+    }
+  };
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || capturing) return;
+    setCapturing(true);
+    try {
+      // Product shots do not need full resolution; a smaller file uploads faster over store Wi-Fi
+      const photo = await cameraRef.current.takePictureAsync({ quality: 0.6 });
+      if (photo) {
+        setPickedUri(photo.uri);
+        setMode('view');
+      }
+    } catch (error) {
+      console.error('Gagal mengambil foto:', error);
+      Alert.alert('Error', 'Gagal mengambil foto. Silakan coba lagi.');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handlePickAsset = async (asset: MediaLibrary.Asset) => {
+    try {
+      // iOS library URIs (ph://) cannot be uploaded; the asset info has a file URI
+      const info = await MediaLibrary.getAssetInfoAsync(asset);
+      setPickedUri(info.localUri ?? asset.uri);
+      setMode('view');
+    } catch (error) {
+      console.error('Gagal membaca foto dari galeri:', error);
+      Alert.alert('Error', 'Foto ini tidak bisa dipakai. Pilih foto lain.');
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!pickedUri) return;
+    setUploading(true);
+    try {
+      setProduct(await uploadProductPhoto(productId, pickedUri));
+      setPickedUri(null);
+      Alert.alert('Sukses', 'Foto produk berhasil diunggah.', [{ text: 'OK', onPress: () => navigation.goBack() }]);
+    } catch (error) {
+      const message = apiErrorMessage(error, 'Gagal mengunggah foto produk.');
+      if (message) Alert.alert('Error', message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (product === undefined) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (product === null) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>Produk tidak ditemukan di data inventaris.</Text>
+      </View>
+    );
+  }
+
+  if (mode === 'camera') {
+    return (
+      <View style={styles.container}>
+        <CameraView ref={cameraRef} style={styles.camera} facing="back" />
+        <View style={styles.cameraActions}>
+          <TouchableOpacity style={[styles.actionButton, styles.secondaryButton, styles.flexButton]} onPress={() => setMode('view')}>
+            <Text style={styles.actionButtonText}>Batal</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.flexButton, capturing && styles.disabledButton]}
+            onPress={handleCapture}
+            disabled={capturing}
+          >
+            {capturing ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.actionButtonText}>Ambil Foto</Text>}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (mode === 'library') {
+    return (
+      <FlatList
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        data={libraryAssets}
+        keyExtractor={(item) => item.id}
+        numColumns={3}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.libraryCell} onPress={() => handlePickAsset(item)}>
+            <Image source={{ uri: item.uri }} style={styles.libraryImage} contentFit="cover" />
+          </TouchableOpacity>
+        )}
+        ListHeaderComponent={
+          <TouchableOpacity style={[styles.actionButton, styles.secondaryButton, styles.libraryBack]} onPress={() => setMode('view')}>
+            <Text style={styles.actionButtonText}>Kembali</Text>
+          </TouchableOpacity>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>Tidak ada foto di galeri.</Text>}
+      />
+    );
+  }
+
+  const currentUri = pickedUri ?? thumbnails[product.id] ?? product.photo_url;
+
+  return (
+    <View style={[styles.container, styles.content]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{product.name}</Text>
+        <Text style={styles.subtitle}>
+          {product.color || '-'} · Ukuran {product.size || '-'}
+        </Text>
+      </View>
+      <View style={styles.preview}>
+        {currentUri ? (
+          <Image source={{ uri: currentUri }} style={styles.previewImage} contentFit="contain" />
+        ) : (
+          <Text style={styles.emptyText}>Belum ada foto.</Text>
+        )}
+        {pickedUri && <Text style={styles.previewNote}>Foto baru, belum diunggah</Text>}
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionButton, styles.flexButton]} onPress={openCamera} disabled={uploading}>
+          <Text style={styles.actionButtonText}>Kamera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.actionButton, styles.flexButton]} onPress={openLibrary} disabled={uploading}>
+          <Text style={styles.actionButtonText}>Galeri</Text>
+        </TouchableOpacity>
+      </View>
+      {pickedUri && (
+        <TouchableOpacity
+          style={[styles.actionButton, styles.uploadButton, uploading && styles.disabledButton]}
+          onPress={handleUpload}
+          disabled={uploading}
+        >
+          {uploading ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.actionButtonText}>Unggah Foto</Text>}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  preview: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  previewImage: {
+    width: '100%',
+    height: '100%',
+  },
+  previewNote: {
+    position: 'absolute',
+    bottom: 8,
+    backgroundColor: '#F59E0B',
+    color: '#FFFFFF',
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraActions: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+    backgroundColor: '#1F2937',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  libraryCell: {
+    flex: 1 / 3,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  libraryImage: {
+    flex: 1,
+    borderRadius: 4,
+  },
+  libraryBack: {
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  flexButton: {
+    flex: 1,
+  },
+  secondaryButton: {
+    backgroundColor: '#6B7280',
+  },
+  uploadButton: {
+    backgroundColor: '#16A34A',
+    marginTop: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default ProductPhoto;
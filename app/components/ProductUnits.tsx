@@ -0,0 +1,378 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { api, apiErrorMessage } from '@/services/api';
+import { Product, ProductUnit, toProduct } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { getLocalProducts, saveLocalProduct } from '@/services/productSync';
+import { ProductDto, productResponseSchema } from '@/services/schemas';
+
+type RootStackParamList = {
+  ProductUnits: { productId: number };
+  LabelPrint: { productIds: number[]; unitCodes?: string[] };
+  StockMovements: { productId: number; unitCode?: string };
+};
+
+type UnitFilter = 'all' | 'active' | 'inactive' | 'sold';
+
+const FILTERS: { value: UnitFilter; label: string }[] = [
+  { value: 'all', label: 'Semua' },
+  { value: 'active', label: 'Aktif' },
+  { value: 'inactive', label: 'Nonaktif' },
+  { value: 'sold', label: 'Terjual' },
+];
+
+const matchesFilter = (unit: ProductUnit, filter: UnitFilter) => {
+  switch (filter) {
+    case 'active':
+      return unit.is_active && !unit.sold_at;
+    case 'inactive':
+      return !unit.is_active;
+    case 'sold':
+      return unit.sold_at !== null;
+    default:
+      return true;
+  }
+};
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : '-';
+
+// Every unit (physical pair) of one product: status, dates, and per-unit actions
+const ProductUnits = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'ProductUnits'>>();
+  const { productId } = route.params;
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'ProductUnits'>>();
+  const { can } = usePermissions();
+  const canEdit = can('inventory.edit');
+  const [product, setProduct] = useState<Product | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<UnitFilter>('all');
+  // Unit code with a request in flight
+  const [busyUnit, setBusyUnit] = useState<string | null>(null);
+
+  useEffect(() => {
+    getLocalProducts().then((products) => {
+      setProduct(products?.find((item) => item.id === productId) ?? null);
+      setLoading(false);
+    });
+  }, [productId]);
+
+  const units = useMemo(() => (product ? product.units.filter((unit) => matchesFilter(unit, filter)) : []), [product, filter]);
+
+  // Unit endpoints answer with the whole product, which replaces the local copy
+  const runUnitAction = useCallback(
+    async (unitCode: string, request: () => Promise<{ data: ProductDto }>, failure: string) => {
+      setBusyUnit(unitCode);
+      try {
+        const updated = toProduct((await request()).data);
+        setProduct(updated);
+        await saveLocalProduct(updated);
+        return updated;
+      } catch (error) {
+        const message = apiErrorMessage(error, failure);
+        if (message) Alert.alert('Error', message);
+        return null;
+      } finally {
+        setBusyUnit(null);
+      }
+    },
+    []
+  );
+
+  const toggleActive = useCallback(
+    (unit: ProductUnit) => {
+      const activate = !unit.is_active;
+      Alert.alert(
+        activate ? 'Aktifkan Unit' : 'Nonaktifkan Unit',
+        activate
+          ? `Unit ${unit.unit_code} akan bisa dijual lagi.`
+          : `Unit ${unit.unit_code} tidak akan bisa dijual, misalnya karena rusak atau hilang.`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          {
+            text: activate ? 'Aktifkan' : 'Nonaktifkan',
+            style: activate ? 'default' : 'destructive',
+            onPress: () =>
+              runUnitAction(
+                unit.unit_code,
+                () =>
+                  api.patch(
+                    `/products/${productId}/units/${encodeURIComponent(unit.unit_code)}`,
+                    { is_active: activate },
+                    { schema: productResponseSchema }
+                  ),
+                'Gagal mengubah status unit.'
+              ),
+          },
+        ]
+      );
+    },
+    [productId, runUnitAction]
+  );
+
+  const regenerateCode = useCallback(
+    (unit: ProductUnit) => {
+      Alert.alert(
+        'Buat Ulang Kode',
+        `Label lama ${unit.unit_code} tidak akan bisa dipindai lagi. Cetak label baru setelah kode dibuat.`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          {
+            text: 'Buat Ulang',
+            style: 'destructive',
+            onPress: async () => {
+              const before = new Set(product?.units.map((item) => item.unit_code));
+              const updated = await runUnitAction(
+                unit.unit_code,
+                () =>
+                  api.post(
+                    `/products/${productId}/units/${encodeURIComponent(unit.unit_code)}/regenerate`,
+                    undefined,
+                    { schema: productResponseSchema }
+                  ),
+                'Gagal membuat ulang kode unit.'
+              );
+              const fresh = updated?.units.find((item) => !before.has(item.unit_code));
+              if (!updated || !fresh) return;
+              Alert.alert('Kode Baru', `Kode unit baru: ${fresh.unit_code}`, [
+                { text: 'Nanti', style: 'cancel' },
+                {
+                  text: 'Cetak Label',
+                  onPress: () => navigation.navigate('LabelPrint', { productIds: [productId], unitCodes: [fresh.unit_code] }),
+                },
+              ]);
+            },
+          },
+        ]
+      );
+    },
+    [navigation, product, productId, runUnitAction]
+  );
+
+  const renderUnit = useCallback(
+    ({ item }: { item: ProductUnit }) => {
+      const sold = item.sold_at !== null;
+      const busy = busyUnit === item.unit_code;
+      return (
+        <View style={[styles.unitCard, !item.is_active && styles.unitCardInactive]}>
+          <View style={styles.unitHeader}>
+            <Text style={styles.unitCode}>{item.unit_code}</Text>
+            <Text style={[styles.badge, sold ? styles.badgeSold : item.is_active ? styles.badgeActive : styles.badgeInactive]}>
+              {sold ? 'Terjual' : item.is_active ? 'Aktif' : 'Nonaktif'}
+            </Text>
+          </View>
+          <Text style={styles.unitMeta}>Dibuat: {formatDate(item.created_at)}</Text>
+          <Text style={styles.unitMeta}>Terjual: {sold ? formatDate(item.sold_at) : 'Belum terjual'}</Text>
+          <TouchableOpacity
+            style={styles.historyLink}
+            onPress={() => navigation.navigate('StockMovements', { productId, unitCode: item.unit_code })}
+          >
+            <Text style={styles.actionText}>Riwayat Unit</Text>
+          </TouchableOpacity>
+          {canEdit && !sold && (
+            <View style={styles.unitActions}>
+              {busy ? (
+                <ActivityIndicator color="#2563EB" />
+              ) : (
+                <>
+                  <TouchableOpacity onPress={() => toggleActive(item)}>
+                    <Text style={[styles.actionText, item.is_active && styles.dangerText]}>
+                      {item.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => regenerateCode(item)}>
+                    <Text style={styles.actionText}>Buat Ulang Kode</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          )}
+        </View>
+      );
+    },
+    [busyUnit, canEdit, toggleActive, regenerateCode, navigation, productId]
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (!product) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>Produk tidak ditemukan di data inventaris. Sinkronkan ulang lalu coba lagi.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={units}
+      keyExtractor={(item) => item.unit_code}
+      renderItem={renderUnit}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.title}>{product.name}</Text>
+          <Text style={styles.subtitle}>
+            Ukuran {product.size || '-'} · {product.color || '-'} · {product.units.length} unit
+          </Text>
+          <View style={styles.filters}>
+            {FILTERS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.filterChip, filter === option.value && styles.filterChipSelected]}
+                onPress={() => setFilter(option.value)}
+              >
+                <Text style={[styles.filterText, filter === option.value && styles.filterTextSelected]}>
+                  {option.label} ({product.units.filter((unit) => matchesFilter(unit, option.value)).length})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      }
+      ListEmptyComponent={<Text style={styles.emptyText}>Tidak ada unit untuk filter ini.</Text>}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  filterChipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  filterText: {
+    color: '#BFDBFE',
+    fontWeight: '600',
+  },
+  filterTextSelected: {
+    color: '#FFFFFF',
+  },
+  unitCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  unitCardInactive: {
+    backgroundColor: '#F9FAFB',
+    borderColor: '#E5E7EB',
+  },
+  unitHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  unitCode: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+    fontFamily: 'monospace',
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  badgeActive: {
+    backgroundColor: '#16A34A',
+  },
+  badgeInactive: {
+    backgroundColor: '#6B7280',
+  },
+  badgeSold: {
+    backgroundColor: '#2563EB',
+  },
+  unitMeta: {
+    color: '#4B5563',
+    fontSize: 13,
+  },
+  unitActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  historyLink: {
+    marginTop: 8,
+  },
+  actionText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  dangerText: {
+    color: '#DC2626',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
+
+export default ProductUnits;
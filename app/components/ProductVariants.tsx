@@ -0,0 +1,411 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { api, apiErrorMessage } from '@/services/api';
+import { ProductVariantsPayload, toProduct, variantsOf } from '@/services/domain';
+import { getLocalProducts, saveLocalProduct } from '@/services/productSync';
+import { productVariantsResponseSchema } from '@/services/schemas';
+
+type RootStackParamList = {
+  ProductVariants: { productId: number };
+};
+
+// One size of the model, edited as text and parsed again on save
+interface VariantRow {
+  id: number | null;
+  size: string;
+  stock: string;
+  sellingPrice: string;
+  discountPrice: string;
+}
+
+type Variant = ProductVariantsPayload['variants'][number];
+
+// First problem with a row, or the parsed variant
+const parseRow = (row: VariantRow, rows: VariantRow[]): { variant: Variant } | { error: string } => {
+  const size = row.size.trim().toUpperCase();
+  if (!size) return { error: 'Ukuran wajib diisi.' };
+  if (rows.filter((other) => other.size.trim().toUpperCase() === size).length > 1) {
+    return { error: `Ukuran ${size} diisi lebih dari sekali.` };
+  }
+  const stock = Number(row.stock);
+  if (row.stock.trim() === '' || !Number.isInteger(stock) || stock < 0) return { error: 'Stok harus angka 0 atau lebih.' };
+  if (row.id === null && stock < 1) return { error: 'Ukuran baru harus memiliki stok minimal 1.' };
+  const sellingPrice = parseFloat(row.sellingPrice);
+  if (!Number.isFinite(sellingPrice) || sellingPrice <= 0) return { error: 'Harga jual harus lebih dari 0.' };
+  const discountPrice = row.discountPrice.trim() ? parseFloat(row.discountPrice) : null;
+  if (discountPrice !== null && (!Number.isFinite(discountPrice) || discountPrice < 0 || discountPrice >= sellingPrice)) {
+    return { error: 'Harga diskon harus lebih kecil dari harga jual.' };
+  }
+  return { variant: { id: row.id, size, stock, selling_price: sellingPrice, discount_price: discountPrice } };
+};
+
+// Brand, model and colour of a product with all of its sizes as a size × stock × price grid
+const ProductVariants = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<RootStackParamList, 'ProductVariants'>>();
+  const { productId } = route.params;
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [brand, setBrand] = useState('');
+  const [model, setModel] = useState('');
+  const [color, setColor] = useState('');
+  const [rows, setRows] = useState<VariantRow[]>([]);
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  // Stock per saved size as loaded, to tell whether a manual stock change needs a reason
+  const [savedStocks, setSavedStocks] = useState<Record<number, number>>({});
+  const [stockReason, setStockReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getLocalProducts().then((products) => {
+      const product = products?.find((item) => item.id === productId);
+      if (!product || !products) {
+        setNotFound(true);
+      } else {
+        setBrand(product.brand);
+        setModel(product.model);
+        setColor(product.color);
+        const variants = variantsOf(products, product);
+        setSavedStocks(Object.fromEntries(variants.map((variant) => [variant.id, variant.stock])));
+        setRows(
+          variants.map((variant) => ({
+            id: variant.id,
+            size: variant.size,
+            stock: variant.stock.toString(),
+            sellingPrice: variant.selling_price.toString(),
+            discountPrice: variant.discount_price !== null ? variant.discount_price.toString() : '',
+          }))
+        );
+      }
+      setLoading(false);
+    });
+  }, [productId]);
+
+  const updateRow = (index: number, changes: Partial<VariantRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setRowErrors((prev) => {
+      const { [index]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const addRow = () =>
+    setRows((prev) => [
+      ...prev,
+      {
+        id: null,
+        size: '',
+        stock: '1',
+        sellingPrice: prev[prev.length - 1]?.sellingPrice ?? '',
+        discountPrice: prev[prev.length - 1]?.discountPrice ?? '',
+      },
+    ]);
+
+  // Only sizes that are not saved yet can be dropped here; existing ones are deleted from Inventory
+  const removeNewRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+    setRowErrors({});
+  };
+
+  // Copy the first row's prices to every size
+  const applyPriceToAll = () =>
+    setRows((prev) =>
+      prev.map((row) => ({ ...row, sellingPrice: prev[0].sellingPrice, discountPrice: prev[0].discountPrice }))
+    );
+
+  const stockChanged = rows.some((row) => row.id !== null && Number(row.stock) !== savedStocks[row.id]);
+
+  const handleSave = async () => {
+    if (!brand.trim() || !model.trim()) {
+      Alert.alert('Data Belum Lengkap', 'Brand dan model wajib diisi.');
+      return;
+    }
+    const parsed = rows.map((row) => parseRow(row, rows));
+    const errors: Record<number, string> = {};
+    parsed.forEach((result, index) => {
+      if ('error' in result) errors[index] = result.error;
+    });
+    setRowErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      Alert.alert('Periksa Kembali', 'Beberapa ukuran belum valid. Lihat pesan di bawah baris yang ditandai.');
+      return;
+    }
+
+    if (stockChanged && !stockReason.trim()) {
+      Alert.alert('Alasan Diperlukan', 'Isi alasan perubahan stok, misalnya "barang rusak" atau "salah hitung".');
+      return;
+    }
+
+    const payload: ProductVariantsPayload = {
+      brand: brand.trim(),
+      model: model.trim(),
+      color: color.trim() || null,
+      variants: parsed.flatMap((result) => ('variant' in result ? [result.variant] : [])),
+      stock_reason: stockChanged ? stockReason.trim() : null,
+    };
+
+    setSaving(true);
+    try {
+      const response = await api.put('/products/variants', payload, { schema: productVariantsResponseSchema });
+      for (const product of response.data.map(toProduct)) {
+        await saveLocalProduct(product);
+      }
+      Alert.alert('Sukses', `${payload.variants.length} ukuran berhasil disimpan.`);
+      navigation.goBack();
+    } catch (error) {
+      const message = apiErrorMessage(error, 'Terjadi kesalahan. Silakan coba lagi.');
+      if (message) Alert.alert('Gagal Menyimpan', message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.errorText}>Produk tidak ditemukan di data inventaris. Sinkronkan ulang lalu coba lagi.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Edit Produk</Text>
+        <Text style={styles.label}>Brand</Text>
+        <TextInput style={styles.input} value={brand} onChangeText={setBrand} placeholder="Brand" placeholderTextColor="#9CA3AF" />
+        <Text style={styles.label}>Model</Text>
+        <TextInput style={styles.input} value={model} onChangeText={setModel} placeholder="Model" placeholderTextColor="#9CA3AF" />
+        <Text style={styles.label}>Warna</Text>
+        <TextInput style={styles.input} value={color} onChangeText={setColor} placeholder="Warna" placeholderTextColor="#9CA3AF" />
+      </View>
+
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Ukuran</Text>
+        <View style={styles.gridHeader}>
+          <Text style={[styles.gridHeaderText, styles.sizeColumn]}>Ukuran</Text>
+          <Text style={[styles.gridHeaderText, styles.stockColumn]}>Stok</Text>
+          <Text style={[styles.gridHeaderText, styles.priceColumn]}>Harga</Text>
+          <Text style={[styles.gridHeaderText, styles.priceColumn]}>Diskon</Text>
+        </View>
+        {rows.map((row, index) => (
+          <View key={row.id ?? `new-${index}`}>
+            <View style={styles.gridRow}>
+              <TextInput
+                style={[styles.input, styles.gridInput, styles.sizeColumn, rowErrors[index] && styles.inputError]}
+                value={row.size}
+                onChangeText={(text) => updateRow(index, { size: text })}
+                placeholder="-"
+                placeholderTextColor="#9CA3AF"
+              />
+              <TextInput
+                style={[styles.input, styles.gridInput, styles.stockColumn, rowErrors[index] && styles.inputError]}
+                value={row.stock}
+                onChangeText={(text) => updateRow(index, { stock: text.replace(/\D/g, '') })}
+                keyboardType="number-pad"
+              />
+              <TextInput
+                style={[styles.input, styles.gridInput, styles.priceColumn, rowErrors[index] && styles.inputError]}
+                value={row.sellingPrice}
+                onChangeText={(text) => updateRow(index, { sellingPrice: text })}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.input, styles.gridInput, styles.priceColumn, rowErrors[index] && styles.inputError]}
+                value={row.discountPrice}
+                onChangeText={(text) => updateRow(index, { discountPrice: text })}
+                keyboardType="numeric"
+                placeholder="-"
+                placeholderTextColor="#9CA3AF"
+              />
+            </View>
+            {rowErrors[index] && <Text style={styles.errorText}>{rowErrors[index]}</Text>}
+            {row.id === null && (
+              <TouchableOpacity onPress={() => removeNewRow(index)}>
+                <Text style={styles.removeText}>Batalkan ukuran baru</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <View style={styles.rowActions}>
+          <TouchableOpacity onPress={addRow}>
+            <Text style={styles.linkText}>+ Tambah Ukuran</Text>
+          </TouchableOpacity>
+          {rows.length > 1 && (
+            <TouchableOpacity onPress={applyPriceToAll}>
+              <Text style={styles.linkText}>Samakan Harga</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <Text style={styles.hint}>Mengubah stok menambah atau mengurangi unit di server; ukuran baru mendapat kode unit otomatis.</Text>
+        {stockChanged && (
+          <>
+            <Text style={[styles.label, styles.reasonLabel]}>Alasan Perubahan Stok</Text>
+            <TextInput
+              style={styles.input}
+              value={stockReason}
+              onChangeText={setStockReason}
+              placeholder="Contoh: barang rusak, salah hitung"
+              placeholderTextColor="#9CA3AF"
+            />
+          </>
+        )}
+      </View>
+
+      <TouchableOpacity style={[styles.actionButton, saving && styles.disabledButton]} onPress={handleSave} disabled={saving}>
+        {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.actionButtonText}>Simpan Semua Ukuran</Text>}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 16,
+  },
+  form: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 16,
+    color: '#1E3A8A',
+    textTransform: 'uppercase',
+  },
+  label: {
+    color: '#374151',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  reasonLabel: {
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1F2937',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  gridHeader: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 4,
+  },
+  gridHeaderText: {
+    color: '#6B7280',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  gridRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  gridInput: {
+    paddingHorizontal: 8,
+    fontSize: 14,
+  },
+  sizeColumn: {
+    flex: 2,
+  },
+  stockColumn: {
+    flex: 2,
+  },
+  priceColumn: {
+    flex: 3,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: 8,
+  },
+  linkText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#DC2626',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  hint: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ProductVariants;
@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { QR_QUIET_ZONE, qrMatrix } from '@/services/qr';
+
+interface Props {
+  value: string;
+  // Largest width and height in points, quiet zone included
+  size: number;
+}
+
+// QR code built from plain Views, so it needs no network and no SVG renderer
+const QrCode = ({ value, size }: Props) => {
+  const matrix = useMemo(() => qrMatrix(value), [value]);
+  // Whole points per module; fractional sizes leave hairline gaps between rows
+  const cell = Math.max(1, Math.floor(size / (matrix.size + QR_QUIET_ZONE * 2)));
+  const side = cell * (matrix.size + QR_QUIET_ZONE * 2);
+
+  return (
+    <View style={[styles.container, { width: side, height: side, padding: cell * QR_QUIET_ZONE }]}>
+      {matrix.rows.map((runs, row) => (
+        <View key={row} style={{ height: cell }}>
+          {runs.map((run) => (
+            <View
+              key={run.start}
+              style={[styles.module, { left: run.start * cell, width: run.length * cell, height: cell }]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+  },
+  module: {
+    position: 'absolute',
+    top: 0,
+    backgroundColor: '#000000',
+  },
+});
+
+export default QrCode;
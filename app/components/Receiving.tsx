@@ -0,0 +1,1046 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { apiErrorMessage } from '@/services/api';
+import { formatRupiah, Product } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { getLocalProducts } from '@/services/productSync';
+import {
+  closeReceiving,
+  confirmUnit,
+  discardReceiving,
+  getReceiving,
+  lineQuantity,
+  receiveSizes,
+  ReceivingLine,
+  ReceivingSession,
+  receivingText,
+  receivingTotals,
+  removeConfirmed,
+  setLineCost,
+  startReceiving,
+} from '@/services/receiving';
+import { ReceivingDto } from '@/services/schemas';
+
+type RootStackParamList = {
+  Receiving: undefined;
+  LabelPrint: { productIds: number[]; unitCodes?: string[] };
+};
+
+type ProductMode = 'existing' | 'new';
+
+// One brand/model/colour of the catalog with its sizes
+interface ModelGroup {
+  key: string;
+  brand: string;
+  model: string;
+  color: string;
+  sizes: Product[];
+}
+
+// The same label seen again within this window is the camera re-reading it, not a second scan
+const RESCAN_DELAY_MS = 2000;
+
+interface ScanFeedback {
+  tone: 'success' | 'warning' | 'error';
+  message: string;
+}
+
+// Rupiah input: digits only
+const parseAmount = (text: string) => {
+  const digits = text.replace(/\D/g, '');
+  return digits === '' ? null : Number(digits);
+};
+
+// Local calendar date; toISOString would give yesterday's date before 07:00 WIB
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const groupKey = (brand: string, model: string, color: string) =>
+  [brand, model, color].map((value) => (value || '').trim().toLowerCase()).join('|');
+
+// Goods receiving: enter a supplier shipment, create and label its units, then record the receiving document
+const Receiving = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'Receiving'>>();
+  const { user } = usePermissions();
+  const [session, setSession] = useState<ReceivingSession | null | undefined>(undefined);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [closed, setClosed] = useState<{ document: ReceivingDto; session: ReceivingSession } | null>(null);
+
+  // Start form
+  const [supplier, setSupplier] = useState('');
+  const [reference, setReference] = useState('');
+  const [receivedAt, setReceivedAt] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Add-goods form
+  const [mode, setMode] = useState<ProductMode>('existing');
+  const [selectedGroup, setSelectedGroup] = useState('');
+  const [groupSearch, setGroupSearch] = useState('');
+  const [brand, setBrand] = useState('');
+  const [model, setModel] = useState('');
+  const [color, setColor] = useState('');
+  const [sellingPrice, setSellingPrice] = useState('');
+  const [discountPrice, setDiscountPrice] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [extraSizes, setExtraSizes] = useState<string[]>([]);
+  const [newSize, setNewSize] = useState('');
+  const [receiving, setReceiving] = useState(false);
+
+  // Scanning labelled pairs
+  const [showCamera, setShowCamera] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const lastScan = useRef<{ data: string; at: number } | null>(null);
+
+  const [editingCost, setEditingCost] = useState<{ productId: number; value: string } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getReceiving(), getLocalProducts()]).then(([saved, local]) => {
+      setProducts(local ?? []);
+      setSession(saved);
+    });
+  }, []);
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ModelGroup>();
+    products.forEach((product) => {
+      const key = groupKey(product.brand, product.model, product.color);
+      const group = byKey.get(key) ?? { key, brand: product.brand, model: product.model, color: product.color, sizes: [] };
+      group.sizes.push(product);
+      byKey.set(key, group);
+    });
+    return Array.from(byKey.values())
+      .map((group) => ({ ...group, sizes: group.sizes.sort((a, b) => a.size.localeCompare(b.size, undefined, { numeric: true })) }))
+      .sort((a, b) => `${a.brand} ${a.model}`.localeCompare(`${b.brand} ${b.model}`));
+  }, [products]);
+
+  const group = useMemo(() => groups.find((item) => item.key === selectedGroup) ?? null, [groups, selectedGroup]);
+
+  const groupMatches = useMemo(() => {
+    const search = groupSearch.trim().toLowerCase();
+    if (search.length < 2) return [];
+    return groups
+      .filter((item) => `${item.brand} ${item.model} ${item.color}`.toLowerCase().includes(search))
+      .slice(0, 10);
+  }, [groups, groupSearch]);
+
+  const sizes = useMemo(
+    () => [...(mode === 'existing' && group ? group.sizes.map((product) => product.size) : []), ...extraSizes],
+    [mode, group, extraSizes]
+  );
+
+  const totals = useMemo(() => (session ? receivingTotals(session) : { units: 0, cost: 0 }), [session]);
+  const generatedUnits = useMemo(() => session?.lines.flatMap((line) => line.generated) ?? [], [session]);
+
+  const resetForm = () => {
+    setQuantities({});
+    setExtraSizes([]);
+    setNewSize('');
+  };
+
+  const handleStart = async () => {
+    if (!supplier.trim()) {
+      Alert.alert('Data Belum Lengkap', 'Isi nama supplier.');
+      return;
+    }
+    setSession(
+      await startReceiving({ supplier, reference, receivedAt: toDateString(receivedAt), startedBy: user?.nama ?? '-' })
+    );
+  };
+
+  const handleAddSize = () => {
+    const size = newSize.trim().toUpperCase();
+    if (!size) return;
+    if (sizes.some((item) => item.toUpperCase() === size)) {
+      Alert.alert('Ukuran Sudah Ada', `Ukuran ${size} sudah ada di daftar.`);
+      return;
+    }
+    setExtraSizes((prev) => [...prev, size]);
+    setNewSize('');
+  };
+
+  const printLabels = useCallback(
+    (productIds: number[], unitCodes: string[]) =>
+      navigation.navigate('LabelPrint', { productIds: Array.from(new Set(productIds)), unitCodes }),
+    [navigation]
+  );
+
+  const handleReceive = async () => {
+    if (!session) return;
+    const target =
+      mode === 'existing' && group
+        ? { brand: group.brand, model: group.model, color: group.color }
+        : { brand: brand.trim(), model: model.trim(), color: color.trim() };
+    if (!target.brand || !target.model) {
+      Alert.alert('Data Belum Lengkap', mode === 'existing' ? 'Pilih produk terlebih dahulu.' : 'Isi brand dan model.');
+      return;
+    }
+    const entries = sizes
+      .map((size) => ({ size, quantity: Number(quantities[size] || 0) }))
+      .filter((entry) => entry.quantity > 0);
+    if (entries.length === 0) {
+      Alert.alert('Data Belum Lengkap', 'Isi jumlah pasang untuk minimal satu ukuran.');
+      return;
+    }
+    const cost = parseAmount(unitCost);
+    if (!cost) {
+      Alert.alert('Data Belum Lengkap', 'Isi harga modal per pasang.');
+      return;
+    }
+    // New sizes of a known model take the model's current prices
+    const known = mode === 'existing' && group ? group.sizes[0] : null;
+    const price = known ? known.selling_price : parseAmount(sellingPrice);
+    const discount = known ? known.discount_price : parseAmount(discountPrice);
+    if (!price) {
+      Alert.alert('Data Belum Lengkap', 'Isi harga jual untuk produk baru.');
+      return;
+    }
+    if (discount !== null && discount >= price) {
+      Alert.alert('Data Tidak Valid', 'Harga diskon harus lebih kecil dari harga jual.');
+      return;
+    }
+
+    const before = new Set(generatedUnits);
+    setReceiving(true);
+    try {
+      const lines = await receiveSizes(
+        { ...target, sellingPrice: price, discountPrice: discount, unitCost: cost, sizes: entries },
+        products
+      );
+      const created = lines.flatMap((line) => line.generated.filter((code) => !before.has(code)));
+      resetForm();
+      Alert.alert('Unit Dibuat', `${created.length} unit baru dibuat. Cetak labelnya sekarang?`, [
+        { text: 'Nanti', style: 'cancel' },
+        { text: 'Cetak Label', onPress: () => printLabels(lines.map((line) => line.productId), created) },
+      ]);
+    } catch (error) {
+      // receiveSizes also throws plain errors meant for the user, e.g. an ended session
+      const message = apiErrorMessage(error, error instanceof Error ? error.message : 'Gagal membuat unit.');
+      if (message) Alert.alert('Error', message);
+    } finally {
+      // Sizes that succeeded before a failure are already saved in the session
+      setProducts((await getLocalProducts()) ?? []);
+      setSession(await getReceiving());
+      setReceiving(false);
+    }
+  };
+
+  const handleScan = useCallback(
+    async (data: string) => {
+      const now = Date.now();
+      if (lastScan.current && lastScan.current.data === data && now - lastScan.current.at < RESCAN_DELAY_MS) return;
+      lastScan.current = { data, at: now };
+
+      const result = await confirmUnit(data, products);
+      switch (result.kind) {
+        case 'confirmed':
+          setFeedback({
+            tone: 'success',
+            message: `${result.unitCode} diterima · ${result.line.name} ukuran ${result.line.size || '-'}`,
+          });
+          break;
+        case 'duplicate':
+          setFeedback({ tone: 'warning', message: `${result.unitCode} sudah tercatat di penerimaan ini.` });
+          break;
+        case 'sold':
+          setFeedback({ tone: 'error', message: `${result.unitCode} tercatat sudah terjual.` });
+          break;
+        case 'inactive':
+          setFeedback({ tone: 'error', message: `${result.unitCode} nonaktif. Aktifkan dulu di halaman unit produk.` });
+          break;
+        case 'unknown':
+          setFeedback({ tone: 'error', message: `${result.unitCode} tidak ada di inventaris. Sinkronkan inventaris lalu coba lagi.` });
+          break;
+        default:
+          setFeedback({ tone: 'error', message: 'QR tidak dikenali sebagai label unit.' });
+      }
+      setSession(await getReceiving());
+    },
+    [products]
+  );
+
+  const handleManualScan = async () => {
+    if (!manualCode.trim()) return;
+    await handleScan(manualCode.trim());
+    setManualCode('');
+  };
+
+  const openCamera = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        Alert.alert('Izin Kamera', 'Izin kamera diperlukan untuk memindai label unit.');
+        return;
+      }
+    }
+    lastScan.current = null;
+    setShowCamera(true);
+  };
+
+  const handleRemoveConfirmed = useCallback(
+    (unitCode: string) =>
+      Alert.alert('Hapus Pindaian', `Keluarkan ${unitCode} dari penerimaan ini?`, [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Hapus',
+          style: 'destructive',
+          onPress: async () => {
+            await removeConfirmed(unitCode);
+            setSession(await getReceiving());
+          },
+        },
+      ]),
+    []
+  );
+
+  const handleSaveCost = useCallback(async () => {
+    if (!editingCost) return;
+    const cost = parseAmount(editingCost.value);
+    if (!cost) {
+      Alert.alert('Data Tidak Valid', 'Harga modal harus lebih dari 0.');
+      return;
+    }
+    await setLineCost(editingCost.productId, cost);
+    setEditingCost(null);
+    setSession(await getReceiving());
+  }, [editingCost]);
+
+  const handleClose = () => {
+    if (!session) return;
+    if (session.lines.length === 0) {
+      Alert.alert('Belum Ada Barang', 'Tambahkan barang atau pindai unit sebelum menutup penerimaan.');
+      return;
+    }
+    const withoutCost = session.lines.filter((line) => line.unitCost <= 0);
+    if (withoutCost.length > 0) {
+      Alert.alert('Harga Modal Kosong', `Isi harga modal untuk ${withoutCost.map((line) => `${line.name} ${line.size}`).join(', ')}.`);
+      return;
+    }
+    Alert.alert(
+      'Tutup Penerimaan',
+      `${totals.units} pasang senilai ${formatRupiah(totals.cost)} dari ${session.supplier} akan dicatat.`,
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Simpan Dokumen',
+          onPress: async () => {
+            setClosing(true);
+            try {
+              setClosed(await closeReceiving(notes));
+              setSession(null);
+              setNotes('');
+              setFeedback(null);
+            } catch (error) {
+              const message = apiErrorMessage(error, 'Gagal menyimpan dokumen penerimaan.');
+              if (message) Alert.alert('Error', message);
+            } finally {
+              setClosing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDiscard = () =>
+    Alert.alert(
+      'Batalkan Penerimaan',
+      'Catatan penerimaan ini akan dihapus. Unit yang sudah dibuat tetap ada di inventaris.',
+      [
+        { text: 'Lanjutkan', style: 'cancel' },
+        {
+          text: 'Batalkan Sesi',
+          style: 'destructive',
+          onPress: async () => {
+            await discardReceiving();
+            setSession(null);
+            setFeedback(null);
+          },
+        },
+      ]
+    );
+
+  const renderLine = useCallback(
+    ({ item }: { item: ReceivingLine }) => {
+      const editing = editingCost?.productId === item.productId;
+      return (
+        <View style={styles.rowCard}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.rowTitle}>
+              {item.name} · {item.color || '-'} · Ukuran {item.size || '-'}
+            </Text>
+            <Text style={styles.quantity}>{lineQuantity(item)} psg</Text>
+          </View>
+          <Text style={styles.rowMeta}>
+            Unit baru {item.generated.length} · Dipindai {item.confirmed.length}
+          </Text>
+          {editing ? (
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={[styles.input, styles.inlineInput]}
+                value={editingCost.value}
+                onChangeText={(text) => setEditingCost({ productId: item.productId, value: text.replace(/\D/g, '') })}
+                keyboardType="number-pad"
+                placeholder="Harga modal"
+                placeholderTextColor="#9CA3AF"
+                autoFocus
+              />
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleSaveCost}>
+                <Text style={styles.buttonText}>Simpan</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.rowHeader}>
+              <Text style={[styles.rowMeta, item.unitCost <= 0 && styles.dangerText]}>
+                Modal {item.unitCost > 0 ? `${formatRupiah(item.unitCost)} / pasang` : 'belum diisi'}
+              </Text>
+              <TouchableOpacity onPress={() => setEditingCost({ productId: item.productId, value: item.unitCost ? String(item.unitCost) : '' })}>
+                <Text style={styles.linkText}>Ubah</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {item.confirmed.length > 0 && (
+            <View style={styles.codes}>
+              {item.confirmed.map((code) => (
+                <TouchableOpacity key={code} style={styles.codeChip} onPress={() => handleRemoveConfirmed(code)}>
+                  <Text style={styles.codeText}>{code} ✕</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {item.generated.length > 0 && (
+            <TouchableOpacity onPress={() => printLabels([item.productId], item.generated)}>
+              <Text style={styles.linkText}>Cetak {item.generated.length} label</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    },
+    [editingCost, handleSaveCost, handleRemoveConfirmed, printLabels]
+  );
+
+  if (session === undefined) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (closed) {
+    const { document } = closed;
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Penerimaan {document.number}</Text>
+          <Text style={styles.subtitle}>
+            {document.supplier || closed.session.supplier} ·{' '}
+            {new Date(document.received_at).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' })}
+          </Text>
+          <Text style={styles.progress}>
+            {document.total_units} pasang · {formatRupiah(document.total_cost)}
+          </Text>
+        </View>
+        {closed.session.lines.map((line) => (
+          <View key={line.productId} style={styles.rowCard}>
+            <Text style={styles.rowTitle}>
+              {line.name} · {line.color || '-'} · Ukuran {line.size || '-'}
+            </Text>
+            <Text style={styles.rowMeta}>
+              {lineQuantity(line)} pasang × {formatRupiah(line.unitCost)}
+            </Text>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() =>
+            Share.share({ message: receivingText(document, closed.session) }).catch((error) =>
+              console.error('Gagal membagikan dokumen penerimaan:', error)
+            )
+          }
+        >
+          <Text style={styles.buttonText}>Bagikan Dokumen</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.secondaryButton, styles.footerButton]} onPress={() => setClosed(null)}>
+          <Text style={styles.buttonText}>Penerimaan Baru</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <Text style={styles.title}>Penerimaan Barang Baru</Text>
+          <Text style={styles.subtitle}>Catat kiriman dari supplier, buat unit dan cetak labelnya.</Text>
+        </View>
+        <View style={styles.card}>
+          <Text style={styles.label}>Supplier</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Nama supplier"
+            placeholderTextColor="#9CA3AF"
+            value={supplier}
+            onChangeText={setSupplier}
+          />
+          <Text style={styles.label}>No. Nota / Surat Jalan</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Opsional"
+            placeholderTextColor="#9CA3AF"
+            value={reference}
+            onChangeText={setReference}
+            autoCapitalize="characters"
+          />
+          <Text style={styles.label}>Tanggal Terima</Text>
+          <TouchableOpacity style={styles.input} onPress={() => setShowDatePicker(true)}>
+            <Text style={styles.inputText}>
+              {receivedAt.toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' })}
+            </Text>
+          </TouchableOpacity>
+          {showDatePicker && (
+            <DateTimePicker
+              value={receivedAt}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              maximumDate={new Date()}
+              onChange={(event, date) => {
+                setShowDatePicker(Platform.OS === 'ios');
+                if (date) setReceivedAt(date);
+              }}
+            />
+          )}
+          <TouchableOpacity style={styles.primaryButton} onPress={handleStart}>
+            <Text style={styles.buttonText}>Mulai Penerimaan</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        contentContainerStyle={styles.content}
+        data={session.lines}
+        keyExtractor={(item) => item.productId.toString()}
+        renderItem={renderLine}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <>
+            <View style={styles.header}>
+              <Text style={styles.title}>{session.supplier}</Text>
+              <Text style={styles.subtitle}>
+                {session.reference ? `${session.reference} · ` : ''}
+                {new Date(session.receivedAt).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' })} ·
+                dicatat oleh {session.startedBy}
+              </Text>
+              <Text style={styles.progress}>
+                {totals.units} pasang · {formatRupiah(totals.cost)}
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>Tambah Barang</Text>
+              <View style={styles.chips}>
+                {(['existing', 'new'] as ProductMode[]).map((value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.chip, mode === value && styles.chipSelected]}
+                    onPress={() => {
+                      setMode(value);
+                      resetForm();
+                    }}
+                  >
+                    <Text style={[styles.chipText, mode === value && styles.chipTextSelected]}>
+                      {value === 'existing' ? 'Produk Terdaftar' : 'Produk Baru'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {mode === 'existing' ? (
+                <>
+                  {group ? (
+                    <View style={[styles.rowHeader, styles.selectedGroup]}>
+                      <Text style={styles.rowTitle}>
+                        {group.brand} {group.model} · {group.color || '-'}
+                      </Text>
+                      <TouchableOpacity
+                        onPress={() => {
+                          setSelectedGroup('');
+                          resetForm();
+                        }}
+                      >
+                        <Text style={styles.linkText}>Ganti</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="Cari brand, model atau warna..."
+                        placeholderTextColor="#9CA3AF"
+                        value={groupSearch}
+                        onChangeText={setGroupSearch}
+                      />
+                      {groupMatches.map((item) => (
+                        <TouchableOpacity
+                          key={item.key}
+                          style={styles.matchRow}
+                          onPress={() => {
+                            setSelectedGroup(item.key);
+                            setGroupSearch('');
+                            resetForm();
+                          }}
+                        >
+                          <Text style={styles.rowTitle}>
+                            {item.brand} {item.model}
+                          </Text>
+                          <Text style={styles.rowMeta}>
+                            {item.color || '-'} · {item.sizes.length} ukuran · {formatRupiah(item.sizes[0].selling_price)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </>
+                  )}
+                </>
+              ) : (
+                <>
+                  <TextInput style={styles.input} placeholder="Brand" placeholderTextColor="#9CA3AF" value={brand} onChangeText={setBrand} />
+                  <TextInput style={styles.input} placeholder="Model" placeholderTextColor="#9CA3AF" value={model} onChangeText={setModel} />
+                  <TextInput style={styles.input} placeholder="Warna" placeholderTextColor="#9CA3AF" value={color} onChangeText={setColor} />
+                  <View style={styles.inlineRow}>
+                    <TextInput
+                      style={[styles.input, styles.inlineInput]}
+                      placeholder="Harga jual"
+                      placeholderTextColor="#9CA3AF"
+                      value={sellingPrice}
+                      onChangeText={(text) => setSellingPrice(text.replace(/\D/g, ''))}
+                      keyboardType="number-pad"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.inlineInput]}
+                      placeholder="Harga diskon (opsional)"
+                      placeholderTextColor="#9CA3AF"
+                      value={discountPrice}
+                      onChangeText={(text) => setDiscountPrice(text.replace(/\D/g, ''))}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                </>
+              )}
+
+              {(mode === 'new' || group) && (
+                <>
+                  <Text style={styles.label}>Jumlah per Ukuran</Text>
+                  {sizes.map((size) => (
+                    <View key={size} style={styles.sizeRow}>
+                      <Text style={styles.sizeLabel}>Ukuran {size}</Text>
+                      <TextInput
+                        style={[styles.input, styles.sizeInput]}
+                        placeholder="0"
+                        placeholderTextColor="#9CA3AF"
+                        value={quantities[size] ?? ''}
+                        onChangeText={(text) => setQuantities((prev) => ({ ...prev, [size]: text.replace(/\D/g, '') }))}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                  ))}
+                  <View style={styles.inlineRow}>
+                    <TextInput
+                      style={[styles.input, styles.inlineInput]}
+                      placeholder="Ukuran lain, misal 42"
+                      placeholderTextColor="#9CA3AF"
+                      value={newSize}
+                      onChangeText={setNewSize}
+                      onSubmitEditing={handleAddSize}
+                      autoCapitalize="characters"
+                    />
+                    <TouchableOpacity style={styles.secondaryButton} onPress={handleAddSize}>
+                      <Text style={styles.buttonText}>Tambah Ukuran</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.label}>Harga Modal per Pasang</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Contoh: 250000"
+                    placeholderTextColor="#9CA3AF"
+                    value={unitCost}
+                    onChangeText={(text) => setUnitCost(text.replace(/\D/g, ''))}
+                    keyboardType="number-pad"
+                  />
+                  <TouchableOpacity
+                    style={[styles.primaryButton, receiving && styles.disabledButton]}
+                    onPress={handleReceive}
+                    disabled={receiving}
+                  >
+                    {receiving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Buat Unit</Text>}
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.sectionTitle}>Unit Berlabel</Text>
+              <Text style={styles.hint}>Pindai pasangan yang sudah memiliki label untuk mencatatnya di penerimaan ini.</Text>
+              <TouchableOpacity style={styles.primaryButton} onPress={openCamera}>
+                <Text style={styles.buttonText}>Pindai Unit</Text>
+              </TouchableOpacity>
+              <View style={styles.inlineRow}>
+                <TextInput
+                  style={[styles.input, styles.inlineInput, styles.manualInput]}
+                  placeholder="Ketik kode unit"
+                  placeholderTextColor="#9CA3AF"
+                  autoCapitalize="characters"
+                  value={manualCode}
+                  onChangeText={setManualCode}
+                  onSubmitEditing={handleManualScan}
+                  returnKeyType="done"
+                />
+                <TouchableOpacity style={[styles.secondaryButton, styles.manualInput]} onPress={handleManualScan}>
+                  <Text style={styles.buttonText}>Tambah</Text>
+                </TouchableOpacity>
+              </View>
+              {feedback && <Text style={[styles.feedback, styles[feedback.tone]]}>{feedback.message}</Text>}
+            </View>
+
+            <Text style={styles.sectionTitle}>Barang Diterima ({session.lines.length})</Text>
+          </>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>Belum ada barang di penerimaan ini.</Text>}
+        ListFooterComponent={
+          <View style={styles.footer}>
+            {generatedUnits.length > 0 && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => printLabels(session.lines.filter((line) => line.generated.length > 0).map((line) => line.productId), generatedUnits)}
+              >
+                <Text style={styles.buttonText}>Cetak Semua Label ({generatedUnits.length})</Text>
+              </TouchableOpacity>
+            )}
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="Catatan (opsional), misal: 1 dus penyok"
+              placeholderTextColor="#9CA3AF"
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, closing && styles.disabledButton]}
+              onPress={handleClose}
+              disabled={closing}
+            >
+              {closing ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Tutup & Simpan Dokumen</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.dangerButton} onPress={handleDiscard} disabled={closing}>
+              <Text style={styles.buttonText}>Batalkan Sesi</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      <Modal visible={showCamera} animationType="fade" onRequestClose={() => setShowCamera(false)}>
+        <View style={styles.cameraContainer}>
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={({ data }) => handleScan(data)}
+          />
+          <View style={styles.cameraPanel}>
+            <Text style={styles.progress}>{totals.units} pasang diterima</Text>
+            {feedback && <Text style={[styles.feedback, styles[feedback.tone]]}>{feedback.message}</Text>}
+            <TouchableOpacity style={styles.primaryButton} onPress={() => setShowCamera(false)}>
+              <Text style={styles.buttonText}>Selesai Memindai</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  progress: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1E3A8A',
+    textTransform: 'uppercase',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  inputText: {
+    color: '#1F2937',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  manualInput: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+    backgroundColor: '#FFFFFF',
+  },
+  hint: {
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    color: '#1E3A8A',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  selectedGroup: {
+    backgroundColor: '#EFF6FF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  matchRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  sizeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  sizeLabel: {
+    flex: 1,
+    color: '#1F2937',
+  },
+  sizeInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  feedback: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 8,
+    overflow: 'hidden',
+    fontWeight: '600',
+  },
+  success: {
+    backgroundColor: '#DCFCE7',
+    color: '#166534',
+  },
+  warning: {
+    backgroundColor: '#FEF3C7',
+    color: '#92400E',
+  },
+  error: {
+    backgroundColor: '#FEE2E2',
+    color: '#991B1B',
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  rowMeta: {
+    color: '#4B5563',
+    fontSize: 13,
+  },
+  quantity: {
+    fontWeight: '700',
+    color: '#16A34A',
+  },
+  codes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  codeChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  codeText: {
+    color: '#1E3A8A',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  linkText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  dangerText: {
+    color: '#DC2626',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  footer: {
+    gap: 12,
+    marginTop: 8,
+  },
+  footerButton: {
+    marginTop: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#1E3A8A',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dangerButton: {
+    backgroundColor: '#DC2626',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraPanel: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    gap: 12,
+  },
+});
+
+export default Receiving;
@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { datedFileName, shareCsv, toCsv } from '@/services/csv';
+import { Product } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { getLocalProducts } from '@/services/productSync';
+import { ReorderModel, reorderReport, useStockThresholds } from '@/services/stockThresholds';
+
+type RootStackParamList = {
+  ReorderReport: undefined;
+  StockThresholds: undefined;
+};
+
+const LEVEL_LABELS = { low: 'Menipis', out: 'Habis' };
+
+const modelTitle = (group: ReorderModel) =>
+  [group.brand, group.model, group.color && `(${group.color})`].filter(Boolean).join(' ').toUpperCase();
+
+// Plain text for chat apps, one model per block
+const reportText = (groups: ReorderModel[]) =>
+  [
+    `Daftar Restock ${new Date().toLocaleDateString('id-ID')}`,
+    ...groups.map((group) =>
+      [
+        '',
+        modelTitle(group),
+        ...group.sizes.map(
+          (size) =>
+            `- Ukuran ${size.product.size || '-'}: stok ${size.product.stock} (${LEVEL_LABELS[size.level].toLowerCase()}), pesan ${size.suggested}`
+        ),
+      ].join('\n')
+    ),
+  ].join('\n');
+
+const reportCsv = (groups: ReorderModel[]) =>
+  toCsv([
+    ['Brand', 'Model', 'Warna', 'Ukuran', 'Stok', 'Stok Minimum', 'Status', 'Saran Pesan'],
+    ...groups.flatMap((group) =>
+      group.sizes.map((size) => [
+        group.brand,
+        group.model,
+        group.color,
+        size.product.size,
+        size.product.stock,
+        size.minimum,
+        LEVEL_LABELS[size.level],
+        size.suggested,
+      ])
+    ),
+  ]);
+
+// Low and out-of-stock sizes per model, ready to send to a supplier
+const ReorderReport = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'ReorderReport'>>();
+  const { can } = usePermissions();
+  const canEdit = can('inventory.edit');
+  const { ready, thresholds } = useStockThresholds();
+  const [products, setProducts] = useState<Product[] | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      getLocalProducts().then((local) => setProducts(local ?? []));
+    }, [])
+  );
+
+  const groups = useMemo(() => (products ? reorderReport(products, thresholds) : []), [products, thresholds]);
+  const counts = useMemo(
+    () =>
+      groups.reduce(
+        (sum, group) => {
+          group.sizes.forEach((size) => {
+            sum[size.level] += 1;
+          });
+          return sum;
+        },
+        { low: 0, out: 0 }
+      ),
+    [groups]
+  );
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerRight: canEdit
+        ? () => (
+            <TouchableOpacity onPress={() => navigation.navigate('StockThresholds')}>
+              <Text style={styles.headerLink}>Atur Batas</Text>
+            </TouchableOpacity>
+          )
+        : undefined,
+    });
+  }, [navigation, canEdit]);
+
+  const handleShareText = () =>
+    Share.share({ message: reportText(groups) }).catch((error) => console.error('Gagal membagikan laporan:', error));
+
+  const handleExportCsv = async () => {
+    setExporting(true);
+    try {
+      await shareCsv(datedFileName('laporan-restock'), reportCsv(groups), 'Kirim Laporan Restock');
+    } catch (error) {
+      console.error('Gagal mengekspor laporan restock:', error);
+      Alert.alert('Error', (error as Error).message || 'Gagal mengekspor laporan.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderGroup = useCallback(
+    ({ item }: { item: ReorderModel }) => (
+      <View style={styles.groupCard}>
+        <Text style={styles.groupTitle}>{modelTitle(item)}</Text>
+        {item.sizes.map((size) => (
+          <View key={size.product.id} style={styles.sizeRow}>
+            <Text style={styles.sizeText}>Ukuran {size.product.size || '-'}</Text>
+            <Text style={styles.sizeText}>
+              {size.product.stock} / {size.minimum}
+            </Text>
+            <Text style={[styles.badge, size.level === 'out' ? styles.badgeOut : styles.badgeLow]}>{LEVEL_LABELS[size.level]}</Text>
+            <Text style={styles.suggested}>Pesan {size.suggested}</Text>
+          </View>
+        ))}
+      </View>
+    ),
+    []
+  );
+
+  if (!products || !ready) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={groups}
+      keyExtractor={(item) => `${item.brand}|${item.model}|${item.color}`}
+      renderItem={renderGroup}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.title}>Laporan Restock</Text>
+          <Text style={styles.subtitle}>
+            {counts.out} ukuran habis · {counts.low} ukuran menipis · {groups.length} model
+          </Text>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, groups.length === 0 && styles.disabledButton]}
+              onPress={handleShareText}
+              disabled={groups.length === 0}
+            >
+              <Text style={styles.actionButtonText}>Bagikan Teks</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, (groups.length === 0 || exporting) && styles.disabledButton]}
+              onPress={handleExportCsv}
+              disabled={groups.length === 0 || exporting}
+            >
+              <Text style={styles.actionButtonText}>{exporting ? 'Mengekspor...' : 'Ekspor CSV'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      }
+      ListEmptyComponent={<Text style={styles.emptyText}>Semua stok di atas batas minimum.</Text>}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  headerLink: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  groupCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1E3A8A',
+    marginBottom: 8,
+  },
+  sizeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+    gap: 8,
+  },
+  sizeText: {
+    color: '#1F2937',
+    fontSize: 13,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  badgeLow: {
+    backgroundColor: '#F59E0B',
+  },
+  badgeOut: {
+    backgroundColor: '#DC2626',
+  },
+  suggested: {
+    color: '#2563EB',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
+
+export default ReorderReport;
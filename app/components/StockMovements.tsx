@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { api, apiErrorMessage } from '@/services/api';
+import { Product, StockMovement, StockMovementType, toStockMovement } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { getLocalProducts } from '@/services/productSync';
+import { stockMovementListResponseSchema } from '@/services/schemas';
+
+type RootStackParamList = {
+  // `unitCode` narrows the ledger to one physical pair
+  StockMovements: { productId: number; unitCode?: string };
+  TransactionIndex: { invoice?: string } | undefined;
+};
+
+const PER_PAGE = 50;
+
+const TYPE_LABELS: Record<StockMovementType, string> = {
+  receiving: 'Barang Masuk',
+  sale: 'Penjualan',
+  return: 'Retur',
+  adjustment: 'Penyesuaian',
+  deactivation: 'Dinonaktifkan',
+  activation: 'Diaktifkan',
+  other: 'Lainnya',
+};
+
+const FILTERS: { value: StockMovementType | 'all'; label: string }[] = [
+  { value: 'all', label: 'Semua' },
+  { value: 'receiving', label: 'Masuk' },
+  { value: 'sale', label: 'Penjualan' },
+  { value: 'return', label: 'Retur' },
+  { value: 'adjustment', label: 'Penyesuaian' },
+  { value: 'deactivation', label: 'Nonaktif' },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Stock ledger of one product or unit: every receiving, sale, return, adjustment and deactivation
+const StockMovements = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'StockMovements'>>();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList, 'StockMovements'>>();
+  const { productId, unitCode } = route.params;
+  const { can } = usePermissions();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [filter, setFilter] = useState<StockMovementType | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [lastPage, setLastPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchMovements = useCallback(
+    async (nextPage: number) => {
+      setLoading(true);
+      setErrorMessage('');
+      try {
+        const response = await api.get(`/products/${productId}/movements`, {
+          params: { unit_code: unitCode, type: filter === 'all' ? undefined : filter, page: nextPage, per_page: PER_PAGE },
+          schema: stockMovementListResponseSchema,
+        });
+        const fetched = response.data.movements.map(toStockMovement);
+        setMovements((prev) => (nextPage === 1 ? fetched : [...prev, ...fetched]));
+        setPage(nextPage);
+        setLastPage(response.data.pagination?.last_page || 1);
+      } catch (error) {
+        const message = apiErrorMessage(error, 'Gagal memuat riwayat stok.');
+        if (message) setErrorMessage(message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [productId, unitCode, filter]
+  );
+
+  useEffect(() => {
+    getLocalProducts().then((products) => setProduct(products?.find((item) => item.id === productId) ?? null));
+  }, [productId]);
+
+  useEffect(() => {
+    fetchMovements(1);
+  }, [fetchMovements]);
+
+  // Totals of the loaded entries, so shrinkage stands out next to sales
+  const totals = useMemo(
+    () =>
+      movements.reduce(
+        (sum, movement) =>
+          movement.quantity >= 0 ? { ...sum, in: sum.in + movement.quantity } : { ...sum, out: sum.out - movement.quantity },
+        { in: 0, out: 0 }
+      ),
+    [movements]
+  );
+
+  const openInvoice = useCallback(
+    (invoice: string) => {
+      if (!can('transaction.view')) {
+        Alert.alert('Akses Ditolak', 'Anda tidak memiliki akses ke data transaksi.');
+        return;
+      }
+      navigation.navigate('TransactionIndex', { invoice });
+    },
+    [can, navigation]
+  );
+
+  const renderMovement = useCallback(
+    ({ item }: { item: StockMovement }) => (
+      <View style={styles.movementCard}>
+        <View style={styles.movementHeader}>
+          <Text style={styles.movementType}>{TYPE_LABELS[item.type]}</Text>
+          <Text style={[styles.quantity, item.quantity < 0 ? styles.quantityOut : styles.quantityIn]}>
+            {item.quantity > 0 ? `+${item.quantity}` : item.quantity}
+          </Text>
+        </View>
+        <Text style={styles.meta}>{formatDate(item.created_at)}</Text>
+        {item.unit_code && !unitCode && <Text style={styles.meta}>Unit: {item.unit_code}</Text>}
+        {item.invoice_number && (
+          <TouchableOpacity onPress={() => openInvoice(item.invoice_number as string)}>
+            <Text style={styles.linkText}>Invoice {item.invoice_number}</Text>
+          </TouchableOpacity>
+        )}
+        {item.reason && <Text style={styles.meta}>Alasan: {item.reason}</Text>}
+        <Text style={styles.meta}>Oleh: {item.user_name || '-'}</Text>
+      </View>
+    ),
+    [openInvoice, unitCode]
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={movements}
+      keyExtractor={(item) => item.id.toString()}
+      renderItem={renderMovement}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.title}>{product ? product.name : `Produk #${productId}`}</Text>
+          <Text style={styles.subtitle}>
+            {unitCode ? `Unit ${unitCode}` : `Ukuran ${product?.size || '-'} · stok sekarang ${product?.stock ?? '-'}`}
+          </Text>
+          <Text style={styles.subtitle}>
+            Masuk +{totals.in} · Keluar -{totals.out}
+          </Text>
+          <View style={styles.filters}>
+            {FILTERS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.filterChip, filter === option.value && styles.filterChipSelected]}
+                onPress={() => setFilter(option.value)}
+              >
+                <Text style={[styles.filterText, filter === option.value && styles.filterTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      }
+      ListEmptyComponent={!loading && !errorMessage ? <Text style={styles.emptyText}>Belum ada riwayat stok.</Text> : null}
+      ListFooterComponent={
+        <>
+          {loading && <ActivityIndicator style={styles.loading} size="large" color="#3B82F6" />}
+          {errorMessage !== '' && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{errorMessage}</Text>
+              <TouchableOpacity style={styles.actionButton} onPress={() => fetchMovements(page)}>
+                <Text style={styles.actionButtonText}>Coba Lagi</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {!loading && page < lastPage && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => fetchMovements(page + 1)}>
+              <Text style={styles.actionButtonText}>Muat Lebih Banyak</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  filterChipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  filterText: {
+    color: '#BFDBFE',
+    fontWeight: '600',
+  },
+  filterTextSelected: {
+    color: '#FFFFFF',
+  },
+  movementCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  movementHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  movementType: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  quantity: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  quantityIn: {
+    color: '#16A34A',
+  },
+  quantityOut: {
+    color: '#DC2626',
+  },
+  meta: {
+    color: '#4B5563',
+    fontSize: 13,
+  },
+  linkText: {
+    color: '#2563EB',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  loading: {
+    marginVertical: 16,
+  },
+  errorContainer: {
+    alignItems: 'center',
+    marginVertical: 16,
+    gap: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    textAlign: 'center',
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default StockMovements;
@@ -0,0 +1,638 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { apiErrorMessage } from '@/services/api';
+import { Product } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { getLocalProducts } from '@/services/productSync';
+import {
+  applyStockTake,
+  discardStockTake,
+  getStockTake,
+  recordScan,
+  removeScan,
+  startStockTake,
+  StockAdjustment,
+  StockTakeSession,
+  StockTakeUnit,
+  stockTakeReport,
+  UNEXPECTED_LABELS,
+  UnexpectedUnit,
+} from '@/services/stockTake';
+
+type Tab = 'missing' | 'found' | 'unexpected' | 'report';
+
+type Row =
+  | { type: 'unit'; unit: StockTakeUnit }
+  | { type: 'unexpected'; unit: UnexpectedUnit }
+  | { type: 'adjustment'; adjustment: StockAdjustment };
+
+// The same label seen again within this window is the camera re-reading it, not a second scan
+const RESCAN_DELAY_MS = 2000;
+
+interface ScanFeedback {
+  tone: 'success' | 'warning' | 'error';
+  message: string;
+}
+
+// Stock-take (stok opname): scan every unit in an area and compare it with the catalog
+const StockTake = () => {
+  const { can, user } = usePermissions();
+  const canAdjust = can('inventory.edit');
+  const [session, setSession] = useState<StockTakeSession | null | undefined>(undefined);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [area, setArea] = useState('');
+  const [brands, setBrands] = useState<string[]>([]);
+  const [tab, setTab] = useState<Tab>('missing');
+  const [showCamera, setShowCamera] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [applying, setApplying] = useState(false);
+  const lastScan = useRef<{ data: string; at: number } | null>(null);
+
+  useEffect(() => {
+    Promise.all([getStockTake(), getLocalProducts()]).then(([saved, local]) => {
+      setProducts(local ?? []);
+      setSession(saved);
+    });
+  }, []);
+
+  const allBrands = useMemo(
+    () => Array.from(new Set(products.map((product) => (product.brand || '').trim()).filter(Boolean))).sort(),
+    [products]
+  );
+
+  const expectedCount = useMemo(
+    () =>
+      products
+        .filter((product) => brands.length === 0 || brands.includes((product.brand || '').trim()))
+        .reduce((sum, product) => sum + product.units.filter((unit) => unit.is_active && !unit.sold_at).length, 0),
+    [products, brands]
+  );
+
+  const report = useMemo(() => (session ? stockTakeReport(session) : null), [session]);
+  const productsById = useMemo(() => new Map(session?.products.map((product) => [product.id, product])), [session]);
+
+  const rows = useMemo((): Row[] => {
+    if (!report) return [];
+    switch (tab) {
+      case 'found':
+        return report.found.map((unit) => ({ type: 'unit', unit }));
+      case 'unexpected':
+        return report.unexpected.map((unit) => ({ type: 'unexpected', unit }));
+      case 'report':
+        return report.adjustments.map((adjustment) => ({ type: 'adjustment', adjustment }));
+      default:
+        return report.missing.map((unit) => ({ type: 'unit', unit }));
+    }
+  }, [report, tab]);
+
+  const toggleBrand = (brand: string) =>
+    setBrands((prev) => (prev.includes(brand) ? prev.filter((item) => item !== brand) : [...prev, brand]));
+
+  const handleStart = async () => {
+    if (!area.trim()) {
+      Alert.alert('Data Belum Lengkap', 'Isi nama area, misalnya "Rak A" atau "Gudang".');
+      return;
+    }
+    if (expectedCount === 0) {
+      Alert.alert('Tidak Ada Unit', 'Tidak ada unit aktif untuk brand yang dipilih. Sinkronkan inventaris lalu coba lagi.');
+      return;
+    }
+    setSession(await startStockTake(products, { area, brands, startedBy: user?.nama ?? '-' }));
+    setTab('missing');
+  };
+
+  const handleScan = useCallback(
+    async (data: string) => {
+      const now = Date.now();
+      if (lastScan.current && lastScan.current.data === data && now - lastScan.current.at < RESCAN_DELAY_MS) return;
+      lastScan.current = { data, at: now };
+
+      const result = await recordScan(data, products);
+      switch (result.kind) {
+        case 'found': {
+          const product = productsById.get(result.unit.product_id);
+          setFeedback({
+            tone: 'success',
+            message: `${result.unit.unit_code} ditemukan${product ? ` · ${product.name} ukuran ${product.size || '-'}` : ''}`,
+          });
+          break;
+        }
+        case 'duplicate':
+          setFeedback({ tone: 'warning', message: `${result.unitCode} sudah dipindai.` });
+          break;
+        case 'unexpected':
+          setFeedback({
+            tone: 'error',
+            message: `${result.unit.unit_code} tidak diharapkan di area ini (${UNEXPECTED_LABELS[result.unit.reason]}).`,
+          });
+          break;
+        default:
+          setFeedback({ tone: 'error', message: 'QR tidak dikenali sebagai label unit.' });
+      }
+      setSession(await getStockTake());
+    },
+    [products, productsById]
+  );
+
+  const handleManualScan = async () => {
+    if (!manualCode.trim()) return;
+    await handleScan(manualCode.trim());
+    setManualCode('');
+  };
+
+  const openCamera = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        Alert.alert('Izin Kamera', 'Izin kamera diperlukan untuk memindai label unit.');
+        return;
+      }
+    }
+    lastScan.current = null;
+    setShowCamera(true);
+  };
+
+  const handleRemoveScan = useCallback(
+    (unitCode: string) =>
+      Alert.alert('Hapus Pindaian', `Tandai ${unitCode} sebagai belum dipindai?`, [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Hapus',
+          style: 'destructive',
+          onPress: async () => {
+            await removeScan(unitCode);
+            setSession(await getStockTake());
+          },
+        },
+      ]),
+    []
+  );
+
+  const handleDiscard = () =>
+    Alert.alert('Batalkan Stok Opname', 'Semua hasil pindaian di sesi ini akan dihapus.', [
+      { text: 'Lanjutkan Menghitung', style: 'cancel' },
+      {
+        text: 'Batalkan Sesi',
+        style: 'destructive',
+        onPress: async () => {
+          await discardStockTake();
+          setSession(null);
+          setFeedback(null);
+        },
+      },
+    ]);
+
+  const handleApply = () => {
+    if (!report) return;
+    Alert.alert(
+      'Terapkan Penyesuaian',
+      report.adjustments.length > 0
+        ? `Stok ${report.adjustments.length} produk akan disesuaikan dengan hasil hitung. ${report.missing.length} unit yang tidak ditemukan akan ditandai.`
+        : 'Semua stok sesuai. Sesi stok opname akan ditutup.',
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Terapkan',
+          onPress: async () => {
+            setApplying(true);
+            try {
+              const adjusted = await applyStockTake();
+              setSession(null);
+              setFeedback(null);
+              Alert.alert('Sukses', `Stok opname selesai. ${adjusted} produk disesuaikan.`);
+            } catch (error) {
+              const message = apiErrorMessage(error, 'Gagal menerapkan penyesuaian stok.');
+              if (message) Alert.alert('Error', message);
+            } finally {
+              setApplying(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRow = useCallback(
+    ({ item }: { item: Row }) => {
+      if (item.type === 'adjustment') {
+        const { product, counted, missingUnitCodes } = item.adjustment;
+        const difference = counted - product.stock;
+        return (
+          <View style={styles.rowCard}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.rowTitle}>
+                {product.name} · {product.size || '-'}
+              </Text>
+              <Text style={[styles.difference, difference < 0 ? styles.dangerText : styles.successText]}>
+                {difference > 0 ? `+${difference}` : difference}
+              </Text>
+            </View>
+            <Text style={styles.rowMeta}>
+              Sistem {product.stock} · Dihitung {counted}
+            </Text>
+            {missingUnitCodes.length > 0 && (
+              <Text style={styles.rowMeta}>Tidak ditemukan: {missingUnitCodes.join(', ')}</Text>
+            )}
+          </View>
+        );
+      }
+      const product = item.unit.product_id !== null ? productsById.get(item.unit.product_id) : undefined;
+      const scanned = tab !== 'missing';
+      return (
+        <View style={styles.rowCard}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.unitCode}>{item.unit.unit_code}</Text>
+            {scanned && (
+              <TouchableOpacity onPress={() => handleRemoveScan(item.unit.unit_code)}>
+                <Text style={styles.dangerText}>Hapus</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.rowMeta}>
+            {product ? `${product.name} · Ukuran ${product.size || '-'}` : 'Produk tidak ada di area ini'}
+          </Text>
+          {item.type === 'unexpected' && <Text style={styles.warningText}>{UNEXPECTED_LABELS[item.unit.reason]}</Text>}
+        </View>
+      );
+    },
+    [productsById, tab, handleRemoveScan]
+  );
+
+  if (session === undefined) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (!session) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Stok Opname Baru</Text>
+          <Text style={styles.subtitle}>Pindai semua unit di satu area lalu bandingkan dengan data inventaris.</Text>
+        </View>
+        <View style={styles.card}>
+          <Text style={styles.label}>Area</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Contoh: Rak A, Etalase Depan, Gudang"
+            placeholderTextColor="#9CA3AF"
+            value={area}
+            onChangeText={setArea}
+          />
+          <Text style={styles.label}>Brand di area ini</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity style={[styles.chip, brands.length === 0 && styles.chipSelected]} onPress={() => setBrands([])}>
+              <Text style={[styles.chipText, brands.length === 0 && styles.chipTextSelected]}>Semua Brand</Text>
+            </TouchableOpacity>
+            {allBrands.map((brand) => (
+              <TouchableOpacity
+                key={brand}
+                style={[styles.chip, brands.includes(brand) && styles.chipSelected]}
+                onPress={() => toggleBrand(brand)}
+              >
+                <Text style={[styles.chipText, brands.includes(brand) && styles.chipTextSelected]}>{brand.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>{expectedCount} unit aktif diharapkan ada di area ini.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleStart}>
+            <Text style={styles.buttonText}>Mulai Menghitung</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  const tabs: { value: Tab; label: string }[] = [
+    { value: 'missing', label: `Belum (${report?.missing.length ?? 0})` },
+    { value: 'found', label: `Ditemukan (${report?.found.length ?? 0})` },
+    { value: 'unexpected', label: `Tak Terduga (${report?.unexpected.length ?? 0})` },
+    { value: 'report', label: `Selisih (${report?.adjustments.length ?? 0})` },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        contentContainerStyle={styles.content}
+        data={rows}
+        keyExtractor={(item) => (item.type === 'adjustment' ? `p-${item.adjustment.product.id}` : item.unit.unit_code)}
+        renderItem={renderRow}
+        ListHeaderComponent={
+          <>
+            <View style={styles.header}>
+              <Text style={styles.title}>{session.area}</Text>
+              <Text style={styles.subtitle}>
+                {session.brands.length > 0 ? session.brands.join(', ').toUpperCase() : 'Semua brand'} · dimulai{' '}
+                {new Date(session.startedAt).toLocaleString('id-ID')} oleh {session.startedBy}
+              </Text>
+              <Text style={styles.progress}>
+                {report?.found.length ?? 0} / {session.expected.length} unit ditemukan
+              </Text>
+            </View>
+            <View style={styles.card}>
+              <TouchableOpacity style={styles.primaryButton} onPress={openCamera}>
+                <Text style={styles.buttonText}>Pindai Unit</Text>
+              </TouchableOpacity>
+              <View style={styles.manualRow}>
+                <TextInput
+                  style={[styles.input, styles.manualInput]}
+                  placeholder="Ketik kode unit"
+                  placeholderTextColor="#9CA3AF"
+                  autoCapitalize="characters"
+                  value={manualCode}
+                  onChangeText={setManualCode}
+                  onSubmitEditing={handleManualScan}
+                  returnKeyType="done"
+                />
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleManualScan}>
+                  <Text style={styles.buttonText}>Tambah</Text>
+                </TouchableOpacity>
+              </View>
+              {feedback && <Text style={[styles.feedback, styles[feedback.tone]]}>{feedback.message}</Text>}
+            </View>
+            <View style={styles.chips}>
+              {tabs.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, tab === option.value && styles.chipSelected]}
+                  onPress={() => setTab(option.value)}
+                >
+                  <Text style={[styles.chipText, tab === option.value && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {tab === 'report' ? 'Belum ada selisih stok.' : 'Tidak ada unit di daftar ini.'}
+          </Text>
+        }
+        ListFooterComponent={
+          <View style={styles.footer}>
+            {canAdjust && (
+              <TouchableOpacity
+                style={[styles.primaryButton, applying && styles.disabledButton]}
+                onPress={handleApply}
+                disabled={applying}
+              >
+                {applying ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.buttonText}>Terapkan Penyesuaian</Text>}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.dangerButton} onPress={handleDiscard} disabled={applying}>
+              <Text style={styles.buttonText}>Batalkan Sesi</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+
+      <Modal visible={showCamera} animationType="fade" onRequestClose={() => setShowCamera(false)}>
+        <View style={styles.cameraContainer}>
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={({ data }) => handleScan(data)}
+          />
+          <View style={styles.cameraPanel}>
+            <Text style={styles.progress}>
+              {report?.found.length ?? 0} / {session.expected.length} unit ditemukan
+            </Text>
+            {feedback && <Text style={[styles.feedback, styles[feedback.tone]]}>{feedback.message}</Text>}
+            <TouchableOpacity style={styles.primaryButton} onPress={() => setShowCamera(false)}>
+              <Text style={styles.buttonText}>Selesai Memindai</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  subtitle: {
+    color: '#D1D5DB',
+    marginTop: 4,
+  },
+  progress: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#1F2937',
+    marginBottom: 16,
+  },
+  hint: {
+    color: '#6B7280',
+    marginVertical: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    color: '#1E3A8A',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  manualRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  manualInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  feedback: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 8,
+    overflow: 'hidden',
+    fontWeight: '600',
+  },
+  success: {
+    backgroundColor: '#DCFCE7',
+    color: '#166534',
+  },
+  warning: {
+    backgroundColor: '#FEF3C7',
+    color: '#92400E',
+  },
+  error: {
+    backgroundColor: '#FEE2E2',
+    color: '#991B1B',
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    flex: 1,
+    fontWeight: '700',
+    color: '#1F2937',
+    textTransform: 'uppercase',
+  },
+  rowMeta: {
+    color: '#4B5563',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  unitCode: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+    fontFamily: 'monospace',
+  },
+  difference: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  successText: {
+    color: '#16A34A',
+  },
+  dangerText: {
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  warningText: {
+    color: '#B45309',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  footer: {
+    gap: 8,
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#1E40AF',
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  dangerButton: {
+    backgroundColor: '#DC2626',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraPanel: {
+    backgroundColor: '#1F2937',
+    padding: 16,
+    gap: 8,
+  },
+});
+
+export default StockTake;
@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { Product } from '@/services/domain';
+import { getLocalProducts } from '@/services/productSync';
+import { saveStockThresholds, ThresholdRule, ThresholdScope, useStockThresholds } from '@/services/stockThresholds';
+
+const SCOPES: { value: ThresholdScope; label: string }[] = [
+  { value: 'brand', label: 'Brand' },
+  { value: 'model', label: 'Model' },
+  { value: 'product', label: 'Produk (ukuran)' },
+];
+
+const parseMinimum = (value: string) => {
+  const minimum = Number(value);
+  return value.trim() !== '' && Number.isInteger(minimum) && minimum >= 0 ? minimum : null;
+};
+
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values.map((value) => (value || '').trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+// Minimum stock per brand, model or product; used for "Stok Menipis" and the restock report
+const StockThresholds = () => {
+  const { ready, thresholds } = useStockThresholds();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [defaultMinimum, setDefaultMinimum] = useState('');
+  const [scope, setScope] = useState<ThresholdScope>('brand');
+  const [brand, setBrand] = useState('');
+  const [model, setModel] = useState('');
+  const [productId, setProductId] = useState<number | null>(null);
+  const [minimum, setMinimum] = useState('');
+
+  useEffect(() => {
+    getLocalProducts().then((local) => setProducts(local ?? []));
+  }, []);
+
+  useEffect(() => {
+    if (ready) setDefaultMinimum(thresholds.defaultMinimum.toString());
+  }, [ready, thresholds.defaultMinimum]);
+
+  const brands = useMemo(() => uniqueSorted(products.map((product) => product.brand)), [products]);
+  const models = useMemo(
+    () => uniqueSorted(products.filter((product) => product.brand.trim() === brand).map((product) => product.model)),
+    [products, brand]
+  );
+  const sizes = useMemo(
+    () =>
+      products
+        .filter((product) => product.brand.trim() === brand && product.model.trim() === model)
+        .sort((a, b) => a.size.localeCompare(b.size, undefined, { numeric: true })),
+    [products, brand, model]
+  );
+
+  const productLabel = (id: number | null) => {
+    const product = products.find((item) => item.id === id);
+    return product ? `${product.name} · ${product.color || '-'} · Ukuran ${product.size || '-'}` : `Produk #${id}`;
+  };
+
+  const ruleLabel = (rule: ThresholdRule) => {
+    switch (rule.scope) {
+      case 'product':
+        return productLabel(rule.productId);
+      case 'model':
+        return `${rule.brand} ${rule.model}`.toUpperCase();
+      default:
+        return `${rule.brand.toUpperCase()} (semua model)`;
+    }
+  };
+
+  const handleSaveDefault = async () => {
+    const parsed = parseMinimum(defaultMinimum);
+    if (parsed === null) {
+      Alert.alert('Data Tidak Valid', 'Stok minimum harus angka 0 atau lebih.');
+      return;
+    }
+    await saveStockThresholds({ ...thresholds, defaultMinimum: parsed });
+    Alert.alert('Sukses', 'Batas stok default disimpan.');
+  };
+
+  const handleAddRule = async () => {
+    const parsed = parseMinimum(minimum);
+    if (!brand || (scope !== 'brand' && !model) || (scope === 'product' && productId === null)) {
+      Alert.alert('Data Belum Lengkap', 'Pilih brand, model dan ukuran sesuai jenis aturan.');
+      return;
+    }
+    if (parsed === null) {
+      Alert.alert('Data Tidak Valid', 'Stok minimum harus angka 0 atau lebih.');
+      return;
+    }
+    const rule: ThresholdRule = {
+      id: scope === 'product' ? `product:${productId}` : scope === 'model' ? `model:${brand}|${model}` : `brand:${brand}`,
+      scope,
+      brand,
+      model: scope === 'brand' ? null : model,
+      productId: scope === 'product' ? productId : null,
+      minimum: parsed,
+    };
+    // Adding a rule for the same brand/model/product replaces the old one
+    await saveStockThresholds({
+      ...thresholds,
+      rules: [...thresholds.rules.filter((item) => item.id.toLowerCase() !== rule.id.toLowerCase()), rule],
+    });
+    setMinimum('');
+  };
+
+  const handleRemoveRule = (rule: ThresholdRule) =>
+    Alert.alert('Hapus Aturan', `Hapus batas stok untuk ${ruleLabel(rule)}?`, [
+      { text: 'Batal', style: 'cancel' },
+      {
+        text: 'Hapus',
+        style: 'destructive',
+        onPress: () => saveStockThresholds({ ...thresholds, rules: thresholds.rules.filter((item) => item.id !== rule.id) }),
+      },
+    ]);
+
+  if (!ready) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Batas Default</Text>
+        <Text style={styles.hint}>Produk tanpa aturan khusus dianggap menipis jika stoknya di bawah angka ini.</Text>
+        <View style={styles.inlineRow}>
+          <TextInput
+            style={[styles.input, styles.inlineInput]}
+            value={defaultMinimum}
+            onChangeText={(text) => setDefaultMinimum(text.replace(/\D/g, ''))}
+            keyboardType="number-pad"
+          />
+          <TouchableOpacity style={styles.actionButton} onPress={handleSaveDefault}>
+            <Text style={styles.actionButtonText}>Simpan</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Aturan Khusus</Text>
+        <Text style={styles.hint}>Aturan produk mengalahkan aturan model, dan aturan model mengalahkan aturan brand.</Text>
+        {thresholds.rules.length === 0 && <Text style={styles.emptyText}>Belum ada aturan khusus.</Text>}
+        {thresholds.rules.map((rule) => (
+          <View key={rule.id} style={styles.ruleRow}>
+            <View style={styles.ruleText}>
+              <Text style={styles.ruleTitle}>{ruleLabel(rule)}</Text>
+              <Text style={styles.ruleMeta}>
+                {SCOPES.find((item) => item.value === rule.scope)?.label} · minimum {rule.minimum}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleRemoveRule(rule)}>
+              <Text style={styles.removeText}>Hapus</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.form}>
+        <Text style={styles.sectionTitle}>Tambah Aturan</Text>
+        <View style={styles.chips}>
+          {SCOPES.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, scope === option.value && styles.chipSelected]}
+              onPress={() => setScope(option.value)}
+            >
+              <Text style={[styles.chipText, scope === option.value && styles.chipTextSelected]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>Brand</Text>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={brand}
+            onValueChange={(value) => {
+              setBrand(value);
+              setModel('');
+              setProductId(null);
+            }}
+          >
+            <Picker.Item label="Pilih brand" value="" />
+            {brands.map((item) => (
+              <Picker.Item key={item} label={item.toUpperCase()} value={item} />
+            ))}
+          </Picker>
+        </View>
+        {scope !== 'brand' && (
+          <>
+            <Text style={styles.label}>Model</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={model}
+                onValueChange={(value) => {
+                  setModel(value);
+                  setProductId(null);
+                }}
+                enabled={brand !== ''}
+              >
+                <Picker.Item label="Pilih model" value="" />
+                {models.map((item) => (
+                  <Picker.Item key={item} label={item.toUpperCase()} value={item} />
+                ))}
+              </Picker>
+            </View>
+          </>
+        )}
+        {scope === 'product' && (
+          <>
+            <Text style={styles.label}>Ukuran</Text>
+            <View style={styles.pickerContainer}>
+              <Picker selectedValue={productId} onValueChange={(value) => setProductId(value)} enabled={model !== ''}>
+                <Picker.Item label="Pilih ukuran" value={null} />
+                {sizes.map((item) => (
+                  <Picker.Item
+                    key={item.id}
+                    label={`Ukuran ${item.size || '-'} · ${item.color || '-'} (stok ${item.stock})`}
+                    value={item.id}
+                  />
+                ))}
+              </Picker>
+            </View>
+          </>
+        )}
+        <Text style={styles.label}>Stok Minimum</Text>
+        <TextInput
+          style={styles.input}
+          value={minimum}
+          onChangeText={(text) => setMinimum(text.replace(/\D/g, ''))}
+          keyboardType="number-pad"
+          placeholder="Contoh: 2"
+          placeholderTextColor="#9CA3AF"
+        />
+        <TouchableOpacity style={styles.actionButton} onPress={handleAddRule}>
+          <Text style={styles.actionButtonText}>Tambah Aturan</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  form: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+    color: '#1E3A8A',
+    textTransform: 'uppercase',
+  },
+  hint: {
+    color: '#6B7280',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  label: {
+    color: '#374151',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inlineInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    marginBottom: 12,
+    backgroundColor: '#F9FAFB',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#93C5FD',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    color: '#1E3A8A',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  ruleText: {
+    flex: 1,
+  },
+  ruleTitle: {
+    color: '#1F2937',
+    fontWeight: '600',
+  },
+  ruleMeta: {
+    color: '#6B7280',
+    fontSize: 12,
+  },
+  removeText: {
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  actionButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default StockThresholds;
@@ -1,11 +1,12 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import axios, { AxiosError } from 'axios';
 import { CameraView, useCameraPermissions } from 'expo-camera';
-import React, { useCallback, useEffect, useState } from 'react';
+import { Image } from 'expo-image';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Dimensions,
   FlatList,
   KeyboardAvoidingView,
@@ -18,73 +19,65 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { apiErrorMessage } from '@/services/api';
+import { cacheProductThumbnails, useProductThumbnails } from '@/services/productPhotos';
+import { getLocalProducts, syncProducts } from '@/services/productSync';
+import { usePermissions } from '@/services/permissions';
+import { useCashiers } from '@/services/cashiers';
+import { endSession, getSessionUser } from '@/services/session';
+import {
+  CartItem,
+  effectivePrice,
+  formatRupiah,
+  isUnitActive,
+  normalizeUnitCode,
+  parseUnitQr,
+  Product,
+  toCartItem,
+  toTransactionPayload,
+  toUnits,
+  Unit,
+} from '@/services/domain';
+import {
+  createIdempotencyKey,
+  enqueueTransaction,
+  flushQueue,
+  isAlreadyRecorded,
+  isOffline,
+  isRetryableError,
+  isUnreadableResponse,
+  postTransaction,
+  QueuedTransaction,
+  queuedUnitCodes,
+  removeQueuedTransaction,
+  subscribeQueue,
+} from '@/services/transactionQueue';
+import PendingTransactions from './PendingTransactions';
 
 // Define types
 type RootStackParamList = {
   Login: undefined;
   Dashboard: undefined;
   TransactionIndex: undefined;
+  CashierSwitch: undefined;
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Unit {
-  product_id: number;
-  product_name: string;
-  brand: string;
-  model: string;
-  color: string;
-  size: string;
-  unit_code: string;
-  qr_code: string | null;
-  selling_price: number;
-  discount_price: number | null;
-  stock: number;
-  is_active: number;
-}
-
-interface CartItem {
-  product_id: number;
-  name: string;
-  brand: string;
-  model: string;
-  color: string;
-  size: string;
-  unit_code: string;
-  selling_price: number;
-  discount_price: number | null;
-  quantity: number;
+// Unfinished sale kept in storage until it is submitted, for the user who started it
+interface TransactionDraft {
+  userId: number | null;
+  cart: CartItem[];
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string;
+  paymentMethod: string;
+  cardType: string;
+  notes: string;
+  newTotal: string;
 }
 
-interface ApiResponse {
-  success: boolean;
-  data: {
-    products: {
-      id: number;
-      name: string;
-      brand: string;
-      model: string;
-      color: string;
-      size: string;
-      selling_price: string;
-      discount_price: string | null;
-      stock: number;
-      units: {
-        unit_code: string;
-        qr_code: string | null;
-        is_active: number;
-      }[];
-    }[];
-    pagination?: {
-      last_page: number;
-    };
-  };
-}
-
-interface ApiErrorResponse {
-  message?: string;
-  errors?: Record<string, string[]>;
-}
+const DRAFT_KEY = 'transaction_draft';
 
 interface Props {
   navigation: NavigationProp;
@@ -133,6 +126,13 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
   const [cardType, setCardType] = useState<string>('');
   const [notes, setNotes] = useState<string>('');
   const [newTotal, setNewTotal] = useState<string>('');
+  const { ready, can } = usePermissions();
+  const canDiscount = can('transaction.discount');
+  const { cashiers, active: activeCashier, storeAccount } = useCashiers();
+  const thumbnails = useProductThumbnails();
+  // On a shared device with registered cashiers, every sale needs someone unlocked with a PIN,
+  // or the store account itself
+  const needsCashier = cashiers.length > 0 && !activeCashier && !storeAccount;
   const [loading, setLoading] = useState<boolean>(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [showPopup, setShowPopup] = useState<boolean>(false);
@@ -144,6 +144,22 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
   const [permission, requestPermission] = useCameraPermissions();
   const [hasScanned, setHasScanned] = useState<boolean>(false);
 
+  const [draftLoaded, setDraftLoaded] = useState<boolean>(false);
+  const [draftUserId, setDraftUserId] = useState<number | null>(null);
+  const [queuedSales, setQueuedSales] = useState<QueuedTransaction[]>([]);
+
+  // Units in a queued sale count as sold until the sale reaches the server
+  const soldOffline = useMemo(() => queuedUnitCodes(queuedSales), [queuedSales]);
+  const sellableUnits = useMemo(
+    () => availableUnits.filter((unit) => !soldOffline.has(normalizeUnitCode(unit.unit_code))),
+    [availableUnits, soldOffline]
+  );
+
+  useEffect(() => {
+    flushQueue();
+    return subscribeQueue(setQueuedSales);
+  }, []);
+
   useEffect(() => {
     AsyncStorage.getItem('darkMode').then((value) => {
       if (value) setDarkMode(JSON.parse(value));
@@ -151,6 +167,50 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
     fetchUnits();
   }, []);
 
+  // Restore the unfinished sale, e.g. after the session expired mid-transaction.
+  // A draft left by another user on this device is discarded, not shown.
+  useEffect(() => {
+    Promise.all([AsyncStorage.getItem(DRAFT_KEY), getSessionUser()])
+      .then(async ([value, user]) => {
+        setDraftUserId(user?.id ?? null);
+        if (!value) return;
+        const draft: TransactionDraft = JSON.parse(value);
+        if (!user || draft.userId !== user.id) {
+          await AsyncStorage.removeItem(DRAFT_KEY);
+          return;
+        }
+        setCart(draft.cart || []);
+        setCustomerName(draft.customerName || '');
+        setCustomerPhone(draft.customerPhone || '');
+        setCustomerEmail(draft.customerEmail || '');
+        setPaymentMethod(draft.paymentMethod || '');
+        setCardType(draft.cardType || '');
+        setNotes(draft.notes || '');
+        setNewTotal(draft.newTotal || '');
+      })
+      .catch((error) => console.error('Gagal memuat draft transaksi:', error))
+      .finally(() => setDraftLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!draftLoaded) return;
+    const draft: TransactionDraft = {
+      userId: draftUserId,
+      cart,
+      customerName,
+      customerPhone,
+      customerEmail,
+      paymentMethod,
+      cardType,
+      notes,
+      newTotal,
+    };
+    const isEmpty = cart.length === 0 && !customerName && !customerPhone && !customerEmail && !paymentMethod && !notes && !newTotal;
+    (isEmpty ? AsyncStorage.removeItem(DRAFT_KEY) : AsyncStorage.setItem(DRAFT_KEY, JSON.stringify(draft))).catch((error) =>
+      console.error('Gagal menyimpan draft transaksi:', error)
+    );
+  }, [draftLoaded, draftUserId, cart, customerName, customerPhone, customerEmail, paymentMethod, cardType, notes, newTotal]);
+
   useEffect(() => {
     AsyncStorage.setItem('darkMode', JSON.stringify(darkMode));
   }, [darkMode]);
@@ -158,99 +218,37 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
   const fetchUnits = useCallback(async () => {
     setLoading(true);
     setErrorMessage('');
-    try {
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        setErrorMessage('Token tidak ditemukan. Silakan login kembali.');
-        throw new Error('Token autentikasi tidak ditemukan.');
-      }
-      console.log('Fetching units with token:', token);
-
-      let allProducts: Unit[] = [];
-      let currentPage = 1;
-      let lastPage = 1;
-      const perPage = 100;
 
-      do {
-        const url = new URL('https://testingaplikasi.tokosepatusovan.com/api/products');
-        url.searchParams.set('page', currentPage.toString());
-        url.searchParams.set('per_page', perPage.toString());
-        url.searchParams.set('no_cache', 'true');
-        url.searchParams.set('order_by', 'created_at');
-        url.searchParams.set('sort', 'desc');
-
-        const response = await axios.get<ApiResponse>(url.toString(), {
-          headers: {
-            Accept: 'application/json',
-            Authorization: `Bearer ${token}`,
-            'Cache-Control': 'no-cache',
-          },
-        });
-
-        console.log('Fetch units response:', response.data);
-
-        const productData = response.data.data?.products || [];
-        if (!Array.isArray(productData)) {
-          throw new Error('Data produk dari API tidak valid');
-        }
-
-        const validProducts = productData.filter(
-          (product) =>
-            product &&
-            product.id &&
-            product.name &&
-            typeof product.stock === 'number' &&
-            Array.isArray(product.units)
-        );
-
-        const mappedProducts = validProducts.flatMap((product) => {
-          const units = product.units || [];
-          return units
-            .filter((unit) => unit.is_active === 1)
-            .map((unit) => ({
-              product_id: product.id,
-              product_name: product.name,
-              brand: product.brand || 'Unknown',
-              model: product.model || '-',
-              color: product.color || '-',
-              size: product.size || '-',
-              selling_price: parseFloat(product.selling_price) || 0,
-              discount_price: product.discount_price
-                ? parseFloat(product.discount_price)
-                : null,
-              unit_code: unit.unit_code || `UNIT-${product.id}`,
-              qr_code: unit.qr_code || `https://testingaplikasi.tokosepatusovan.com/inventory/${product.id}/unit/${unit.unit_code}`,
-              stock: product.stock || 0,
-              is_active: unit.is_active,
-            }));
-        });
-
-        allProducts = [...allProducts, ...mappedProducts];
-        lastPage = response.data.data?.pagination?.last_page || 1;
-        currentPage++;
-      } while (currentPage <= lastPage);
-
-      if (allProducts.length === 0) {
+    const showUnits = (products: Product[]) => {
+      const units = products.flatMap(toUnits).filter(isUnitActive);
+      if (units.length === 0) {
         setErrorMessage('Tidak ada unit produk aktif tersedia dari API.');
       } else {
-        setAvailableUnits(allProducts);
+        setAvailableUnits(units);
         setSearchResults([]);
       }
+    };
+
+    try {
+      // Shares the local catalog with Inventory; only changes since the last sync are downloaded
+      const products = await syncProducts();
+      showUnits(products);
+      cacheProductThumbnails(products).catch((error) => console.error('Gagal menyimpan foto produk:', error));
     } catch (error: unknown) {
-      const axiosError = error as AxiosError<ApiErrorResponse>;
-      const message =
-        axiosError.response?.data?.message ||
-        'Gagal mengambil data produk. Silakan coba lagi.';
-      console.error('Fetch units error:', axiosError.response?.data);
-      setErrorMessage(message);
-      if (axiosError.response?.status === 401) {
-        await AsyncStorage.removeItem('token');
-        navigation.navigate('Login');
+      const message = apiErrorMessage(error, 'Gagal mengambil data produk. Silakan coba lagi.');
+      if (message === null) return;
+      console.error('Fetch units error:', error);
+      // Offline sales keep working from the local copy
+      const localProducts = await getLocalProducts();
+      if (localProducts) {
+        showUnits(localProducts);
+        return;
       }
+      setErrorMessage(message);
     } finally {
       setLoading(false);
     }
-  }, [navigation]);
+  }, []);
 
   const showPopupMessage = useCallback((title: string, message: string, type: 'success' | 'error', navigateOnClose: boolean = false) => {
     setPopupTitle(title);
@@ -294,6 +292,14 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         );
         return;
       }
+      if (soldOffline.has(normalizeUnitCode(unit.unit_code))) {
+        showPopupMessage(
+          'Unit Sudah Terjual',
+          `Unit "${unit.unit_code}" ada di transaksi tertunda yang belum terkirim.`,
+          'error'
+        );
+        return;
+      }
       if (unit.stock <= 0) {
         showPopupMessage(
           'Stok Habis',
@@ -302,7 +308,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         );
         return;
       }
-      if (unit.is_active !== 1) {
+      if (!isUnitActive(unit)) {
         showPopupMessage(
           'Unit Tidak Aktif',
           `Unit "${unit.unit_code}" sudah tidak aktif.`,
@@ -310,19 +316,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         );
         return;
       }
-      const newCartItem: CartItem = {
-        product_id: unit.product_id,
-        name: unit.product_name,
-        brand: unit.brand,
-        model: unit.model,
-        color: unit.color,
-        size: unit.size,
-        selling_price: unit.selling_price,
-        discount_price: unit.discount_price,
-        unit_code: unit.unit_code,
-        quantity: 1,
-      };
-      setCart((prev) => [...prev, newCartItem]);
+      setCart((prev) => [...prev, toCartItem(unit)]);
       setSearchQuery('');
       setSearchResults([]);
       setShowProductDropdown(false);
@@ -332,7 +326,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         'success'
       );
     }, 500, { leading: true, trailing: false }),
-    [cart, showPopupMessage]
+    [cart, soldOffline, showPopupMessage]
   );
 
   const removeItem = useCallback((index: number) => {
@@ -341,23 +335,73 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
 
   const calculateSubtotal = useCallback((): number => {
     return cart.reduce((total, item) => {
-      const price = item.discount_price ?? item.selling_price;
-      return total + price * item.quantity;
+      return total + effectivePrice(item) * item.quantity;
     }, 0);
   }, [cart]);
 
+  // Only roles with the discount permission may lower the total below the subtotal
   const calculateDiscount = useCallback((): number => {
+    if (!canDiscount) return 0;
     const subtotal = calculateSubtotal();
     const total = parseFloat(newTotal) || 0;
     return Math.max(0, subtotal - total);
-  }, [newTotal, calculateSubtotal]);
+  }, [canDiscount, newTotal, calculateSubtotal]);
 
   const calculateTotal = useCallback((): number => {
+    if (!canDiscount) return calculateSubtotal();
     const total = parseFloat(newTotal);
     return Math.max(0, isNaN(total) ? calculateSubtotal() : total);
-  }, [newTotal, calculateSubtotal]);
+  }, [canDiscount, newTotal, calculateSubtotal]);
+
+  // Without the discount permission the new total simply follows the subtotal
+  useEffect(() => {
+    if (!ready || canDiscount) return;
+    setNewTotal(cart.length > 0 ? calculateSubtotal().toString() : '');
+  }, [ready, canDiscount, cart, calculateSubtotal]);
+
+  const resetForm = useCallback(() => {
+    setCart([]);
+    setCustomerName('');
+    setCustomerPhone('');
+    setCustomerEmail('');
+    setPaymentMethod('');
+    setCardType('');
+    setNotes('');
+    setNewTotal('');
+  }, []);
+
+  // Move a rejected queued sale back into the form so the cashier can correct and resubmit it
+  const loadQueuedTransaction = useCallback((item: QueuedTransaction) => {
+    const load = async () => {
+      await removeQueuedTransaction(item.id);
+      setCart(item.cart);
+      setCustomerName(item.payload.customer_name || '');
+      setCustomerPhone(item.payload.customer_phone || '');
+      setCustomerEmail(item.payload.customer_email || '');
+      setPaymentMethod(item.payload.payment_method);
+      setCardType(item.payload.card_type || '');
+      setNotes(item.payload.notes || '');
+      setNewTotal(item.total.toString());
+    };
+    if (cart.length > 0) {
+      Alert.alert('Ganti Keranjang', 'Keranjang saat ini akan diganti dengan transaksi tertunda. Lanjutkan?', [
+        { text: 'Batal', style: 'cancel' },
+        { text: 'Ganti', onPress: load },
+      ]);
+    } else {
+      load();
+    }
+  }, [cart]);
 
   const validateForm = useCallback((): boolean => {
+    if (needsCashier) {
+      showPopupMessage(
+        'Kasir Belum Dipilih',
+        'Buka kasir dengan PIN Anda sebelum menyimpan transaksi.',
+        'error'
+      );
+      return false;
+    }
     if (cart.length === 0) {
       showPopupMessage(
         'Keranjang Kosong',
@@ -400,73 +444,74 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
       return false;
     }
     return true;
-  }, [cart, paymentMethod, cardType, newTotal, calculateSubtotal, showPopupMessage]);
+  }, [needsCashier, cart, paymentMethod, cardType, newTotal, calculateSubtotal, showPopupMessage]);
 
   const submitTransaction = useCallback(async () => {
     if (!validateForm()) return;
 
     setLoading(true);
     setErrorMessage('');
-    try {
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        setErrorMessage('Token tidak ditemukan. Silakan login kembali.');
-        throw new Error('Token autentikasi tidak ditemukan.');
-      }
-      console.log('Submitting transaction with token:', token);
+    const payload = toTransactionPayload(createIdempotencyKey(), cart, {
+      customerName,
+      customerPhone,
+      customerEmail,
+      paymentMethod,
+      cardType,
+      notes,
+      discountAmount: calculateDiscount(),
+      cashier: activeCashier,
+    });
 
-      const payload = {
-        customer_name: customerName || null,
-        customer_phone: customerPhone || null,
-        customer_email: customerEmail || null,
-        payment_method: paymentMethod,
-        card_type: paymentMethod === 'debit' ? cardType : null,
-        notes: notes || null,
-        discount_amount: calculateDiscount(),
-        products: cart.map((item) => ({
-          unit_code: item.unit_code.toUpperCase(),
-          discount_price: item.discount_price,
-          quantity: item.quantity,
-        })),
-      };
+    // Without a connection the sale goes into the offline queue under the same idempotency key
+    const queueSale = async () => {
+      await enqueueTransaction(payload, cart, calculateTotal());
+      resetForm();
+      showPopupMessage(
+        'Transaksi Disimpan Offline',
+        'Koneksi terputus. Transaksi disimpan dan akan dikirim otomatis saat koneksi kembali.',
+        'success'
+      );
+    };
 
+    try {
       console.log('Transaction payload:', payload);
 
-      const response = await axios.post('https://testingaplikasi.tokosepatusovan.com/api/transactions', payload, {
-        headers: {
-          'Content-Type': 'application/json',
-          Accept: 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      console.log('Transaction response:', response.data);
-
-      if (!response.data.success) {
-        throw new Error(response.data.message || 'Gagal membuat transaksi.');
+      if (await isOffline()) {
+        await queueSale();
+        return;
       }
 
-      setCart([]);
-      setCustomerName('');
-      setCustomerPhone('');
-      setCustomerEmail('');
-      setPaymentMethod('');
-      setCardType('');
-      setNotes('');
-      setNewTotal('');
+      const response = await postTransaction(payload);
+
+      console.log('Transaction response:', response);
 
+      resetForm();
       showPopupMessage('Transaksi Berhasil', 'Transaksi telah berhasil dibuat!', 'success', true);
     } catch (error: unknown) {
-      const axiosError = error as AxiosError<ApiErrorResponse>;
-      const message =
-        axiosError.response?.data?.message ||
-        'Gagal membuat transaksi. Silakan coba lagi.';
-      console.error('Transaction error:', axiosError.response?.data);
-      showPopupMessage('Gagal Membuat Transaksi', message, 'error');
-      if (axiosError.response?.status === 401) {
-        await AsyncStorage.removeItem('token');
-        navigation.navigate('Login');
+      if (isRetryableError(error)) {
+        await queueSale();
+        return;
+      }
+      if (isAlreadyRecorded(error)) {
+        resetForm();
+        showPopupMessage('Transaksi Berhasil', 'Transaksi telah berhasil dibuat!', 'success', true);
+        return;
+      }
+      if (isUnreadableResponse(error)) {
+        await enqueueTransaction(payload, cart, calculateTotal(), error.message);
+        resetForm();
+        showPopupMessage(
+          'Transaksi Perlu Dicek',
+          'Jawaban server tidak terbaca, jadi belum pasti transaksi tercatat. Cek riwayat transaksi, lalu kirim ulang dari Transaksi Tertunda bila belum ada.',
+          'error'
+        );
+        return;
       }
+      // Null for an expired session; the saved draft keeps the cart for after re-login
+      const message = apiErrorMessage(error, 'Gagal membuat transaksi. Silakan coba lagi.');
+      if (message === null) return;
+      console.error('Transaction error:', error);
+      showPopupMessage('Gagal Membuat Transaksi', message, 'error');
     } finally {
       setLoading(false);
     }
@@ -479,15 +524,13 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
     cardType,
     notes,
     cart,
+    activeCashier,
     calculateDiscount,
+    calculateTotal,
+    resetForm,
     showPopupMessage,
-    navigation,
   ]);
 
-  const formatRupiah = useCallback((amount: number): string => {
-    return `Rp ${new Intl.NumberFormat('id-ID').format(amount || 0)}`;
-  }, []);
-
   const handleBarcodeScanned = useCallback(
     async ({ type, data }: { type: string; data: string }) => {
       if (hasScanned) return;
@@ -496,15 +539,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
       console.log('Barcode scanned:', { type, data });
 
       const scannedCode = data.trim();
-      let unitCode: string | null = null;
-      if (scannedCode.startsWith('https://testingaplikasi.tokosepatusovan.com/inventory/')) {
-        const match = scannedCode.match(/\/unit\/([^/]+)$/);
-        if (match && match[1]) {
-          unitCode = match[1];
-        }
-      } else {
-        unitCode = scannedCode;
-      }
+      const unitCode = parseUnitQr(scannedCode);
 
       if (availableUnits.length === 0) {
         showPopupMessage(
@@ -520,12 +555,12 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
 
       const unit = availableUnits.find(
         (u) =>
-          (unitCode && u.unit_code.toLowerCase() === unitCode.toLowerCase()) ||
-          (u.qr_code && u.qr_code.toLowerCase() === scannedCode.toLowerCase())
+          (unitCode && normalizeUnitCode(u.unit_code) === normalizeUnitCode(unitCode)) ||
+          u.qr_code.toLowerCase() === scannedCode.toLowerCase()
       );
 
       if (unit) {
-        if (unit.is_active !== 1) {
+        if (!isUnitActive(unit)) {
           showPopupMessage(
             'Unit Tidak Aktif',
             `Unit "${unit.unit_code}" sudah tidak aktif.`,
@@ -555,6 +590,10 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         onPress={() => addToCart(item)}
         activeOpacity={0.7}
       >
+        {/* Downloaded photo, so the cashier can check the shoe in hand matches the scanned unit */}
+        {thumbnails[item.product_id] && (
+          <Image source={{ uri: thumbnails[item.product_id] }} style={styles.productThumbnail} contentFit="cover" />
+        )}
         <View style={styles.productCardContent}>
           <Text style={[styles.productName, darkMode && styles.textDark]}>
             {item.product_name || 'Nama tidak tersedia'}
@@ -569,9 +608,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
             Stok: {item.stock || 0}
           </Text>
           <Text style={[styles.productPrice, darkMode && styles.textDark]}>
-            {item.discount_price
-              ? formatRupiah(item.discount_price)
-              : formatRupiah(item.selling_price)}
+            {formatRupiah(effectivePrice(item))}
           </Text>
         </View>
         <TouchableOpacity
@@ -583,7 +620,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         </TouchableOpacity>
       </TouchableOpacity>
     ),
-    [darkMode, addToCart, formatRupiah]
+    [darkMode, addToCart, thumbnails]
   );
 
   const renderCartItem = useCallback(
@@ -603,13 +640,11 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
           Warna: {item.color}, Ukuran: {item.size}, Kode: {item.unit_code}
         </Text>
         <Text style={[styles.text, darkMode && styles.textDark]}>
-          {item.discount_price
-            ? formatRupiah(item.discount_price)
-            : formatRupiah(item.selling_price)}
+          {formatRupiah(effectivePrice(item))}
         </Text>
       </View>
     ),
-    [darkMode, removeItem, formatRupiah]
+    [darkMode, removeItem]
   );
 
   const handleCustomerNameChange = useCallback((text: string) => {
@@ -683,7 +718,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
               style={[styles.button, darkMode && styles.buttonDark]}
               onPress={async () => {
                 setErrorMessage('');
-                await AsyncStorage.removeItem('token');
+                await endSession();
                 navigation.navigate('Login');
               }}
             >
@@ -753,7 +788,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
                   />
                   <View style={[styles.scrollContainer, darkMode && styles.scrollContainerDark]}>
                     <FlatList
-                      data={searchQuery.trim() ? searchResults : availableUnits}
+                      data={searchQuery.trim() ? searchResults : sellableUnits}
                       renderItem={renderUnit}
                       keyExtractor={(item) => item.unit_code}
                       nestedScrollEnabled={true}
@@ -842,7 +877,7 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
         )}
       </View>
     ),
-    [darkMode, errorMessage, permission, loading, searchQuery, searchResults, availableUnits, showProductDropdown, showCamera, hasScanned, navigation, requestPermission, renderUnit, fetchUnits]
+    [darkMode, errorMessage, permission, loading, searchQuery, searchResults, sellableUnits, showProductDropdown, showCamera, hasScanned, navigation, requestPermission, renderUnit, fetchUnits]
   );
 
   const { width, height } = Dimensions.get('window');
@@ -1060,6 +1095,12 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
       flex: 1,
       marginRight: 8,
     },
+    productThumbnail: {
+      width: 56,
+      height: 56,
+      borderRadius: 8,
+      marginRight: 12,
+    },
     productName: {
       fontSize: 16,
       fontWeight: '600',
@@ -1168,6 +1209,21 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
           ListHeaderComponent={renderHeader}
           ListFooterComponent={
             <View>
+              {cashiers.length > 0 && (
+                <View style={[styles.card, darkMode && styles.cardDark]}>
+                  <Text style={[styles.fieldLabel, darkMode && styles.fieldLabelDark]}>Kasir</Text>
+                  <Text style={[styles.text, darkMode && styles.textDark]}>
+                    {activeCashier ? activeCashier.name : storeAccount ? 'Akun toko' : 'Belum ada kasir aktif'}
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.button, darkMode && styles.buttonDark]}
+                    onPress={() => navigation.navigate('CashierSwitch')}
+                  >
+                    <Text style={styles.buttonText}>{activeCashier || storeAccount ? 'Ganti Kasir' : 'Buka Kasir'}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              <PendingTransactions darkMode={darkMode} onFix={loadQueuedTransaction} />
               <View style={[styles.card, darkMode && styles.cardDark]}>
                 <Text style={[styles.fieldLabel, darkMode && styles.fieldLabelDark]}>
                   Informasi Pelanggan
@@ -1266,9 +1322,10 @@ const TransactionCreate: React.FC<Props> = ({ navigation }) => {
                       Harga Baru:{' '}
                     </Text>
                     <TextInput
-                      style={[styles.input, darkMode && styles.inputDark, { flex: 1 }]}
+                      style={[styles.input, darkMode && styles.inputDark, { flex: 1 }, !canDiscount && { opacity: 0.6 }]}
                       value={newTotal}
                       onChangeText={handleNewTotalChange}
+                      editable={canDiscount}
                       placeholder="Masukkan harga baru"
                       placeholderTextColor={darkMode ? '#9CA3AF' : '#9CA3AF'}
                       keyboardType="numeric"
@@ -10,16 +10,19 @@ import {
   Alert,
   Modal,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { NativeStackNavigationProp, NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useFocusEffect, useRoute } from '@react-navigation/native';
 import * as Print from 'expo-print';
+import { api, apiErrorMessage } from '@/services/api';
+import { sellerName, toTransaction, Transaction, TransactionItem } from '@/services/domain';
+import { usePermissions } from '@/services/permissions';
+import { transactionListResponseSchema } from '@/services/schemas';
 
 // Navigation param list
 type RootStackParamList = {
-  TransactionIndex: { showPrint?: boolean };
+  TransactionIndex: { showPrint?: boolean; invoice?: string } | undefined;
   TransactionCreate: undefined;
   TransactionReport: undefined;
 };
@@ -30,49 +33,6 @@ type TransactionIndexNavigationProp = NativeStackNavigationProp<
   'TransactionIndex'
 >;
 
-// Interfaces for API data
-interface TransactionItem {
-  id: number;
-  product_id: number;
-  product_name: string;
-  product_unit_id: number;
-  unit_code: string;
-  color: string | null;
-  size: string | null;
-  quantity: number;
-  price: number;
-  discount: number;
-  subtotal: number;
-}
-
-interface Transaction {
-  id: number;
-  invoice_number: string;
-  user_id: number;
-  user_name: string;
-  total_amount: number;
-  tax_amount: number;
-  discount_amount: number;
-  final_amount: number;
-  payment_method: string;
-  card_type: string | null;
-  payment_status: string;
-  customer_name: string;
-  customer_phone: string;
-  customer_email: string | null;
-  notes: string | null;
-  created_at: string;
-  items: TransactionItem[];
-}
-
-interface ApiResponse {
-  success: boolean;
-  data: {
-    transactions: Transaction[];
-  };
-  message?: string;
-}
-
 interface Props {
   navigation: TransactionIndexNavigationProp;
 }
@@ -92,11 +52,13 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
   const [currentTime, setCurrentTime] = useState<Date>(new Date());
   const [showPrintPopup, setShowPrintPopup] = useState<boolean>(false);
   const route = useRoute<NativeStackScreenProps<RootStackParamList, 'TransactionIndex'>['route']>();
+  const { can } = usePermissions();
+  // Set when opened from a sepatusovanapp://transaction/{invoice} link
+  const linkedInvoice = route.params?.invoice;
 
   const paymentMethods = ['Semua Metode', 'cash', 'qris', 'Transfer Bank'];
   const paymentStatuses = ['Semua Status', 'paid', 'unpaid'];
   const WIB_OFFSET = 7 * 60 * 60 * 1000; // UTC+7 in milliseconds
-  const API_URL = 'https://testingaplikasi.tokosepatusovan.com/api/transactions';
 
   // Update waktu real-time setiap detik
   useEffect(() => {
@@ -148,47 +110,27 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
       setLoading(true);
       setError(null);
 
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        throw new Error('No authentication token found. Please log in again.');
-      }
-
-      const params = new URLSearchParams();
-      params.append('date', formatDateWIB(filterDate));
-      params.append('no_cache', 'true');
-      if (filterPaymentMethod !== 'Semua Metode') {
-        params.append('payment_method', filterPaymentMethod);
-      }
-      if (filterPaymentStatus !== 'Semua Status') {
-        params.append('payment_status', filterPaymentStatus);
-      }
-
-      const url = `${API_URL}?${params.toString()}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      const result = await api.get('/transactions', {
+        // A linked invoice is looked up on its own, whatever the date filter says
+        params: linkedInvoice
+          ? { invoice_number: linkedInvoice, no_cache: 'true' }
+          : {
+              date: formatDateWIB(filterDate),
+              no_cache: 'true',
+              payment_method: filterPaymentMethod !== 'Semua Metode' ? filterPaymentMethod : undefined,
+              payment_status: filterPaymentStatus !== 'Semua Status' ? filterPaymentStatus : undefined,
+            },
+        schema: transactionListResponseSchema,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result: ApiResponse = await response.json();
-
-      if (result.success) {
-        const formattedTransactions = result.data.transactions.map(transaction => ({
-          ...transaction,
-          invoice_number: formatInvoiceNumber(transaction.created_at),
-        }));
-        setTransactions(formattedTransactions);
-      } else {
-        throw new Error(result.message || 'Failed to fetch transactions');
-      }
+      const formattedTransactions = result.data.transactions.map(toTransaction).map(transaction => ({
+        ...transaction,
+        invoice_number: formatInvoiceNumber(transaction.created_at),
+      }));
+      setTransactions(formattedTransactions);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      const errorMessage = apiErrorMessage(err, 'Unknown error');
+      if (errorMessage === null) return;
       setError(`Error fetching transactions: ${errorMessage}`);
       Alert.alert('Error', `Error fetching transactions: ${errorMessage}`);
     } finally {
@@ -200,7 +142,7 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
   useFocusEffect(
     useCallback(() => {
       fetchTransactions();
-    }, [filterDate, filterPaymentMethod, filterPaymentStatus])
+    }, [filterDate, filterPaymentMethod, filterPaymentStatus, linkedInvoice])
   );
 
   const onDateChange = (event: any, selectedDate?: Date) => {
@@ -252,7 +194,7 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
             </div>
             <div class="row">
               <span class="label">Cashier:</span>
-              <span>${transaction.user_name}</span>
+              <span>${sellerName(transaction)}</span>
             </div>
             <div class="row">
               <span class="label">Customer:</span>
@@ -434,18 +376,22 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
         </Text>
       </View>
       <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[styles.button, styles.actionButton]}
-          onPress={() => navigation.navigate('TransactionCreate')}
-        >
-          <Text style={styles.buttonText}>+ Transaksi</Text>
-        </TouchableOpacity>
-        <TouchableOpacity 
-          style={[styles.button, styles.actionButton]}
-          onPress={() => navigation.navigate('TransactionReport')}
-        >
-          <Text style={styles.buttonText}>Laporan</Text>
-        </TouchableOpacity>
+        {can('transaction.create') && (
+          <TouchableOpacity
+            style={[styles.button, styles.actionButton]}
+            onPress={() => navigation.navigate('TransactionCreate')}
+          >
+            <Text style={styles.buttonText}>+ Transaksi</Text>
+          </TouchableOpacity>
+        )}
+        {can('report.view') && (
+          <TouchableOpacity
+            style={[styles.button, styles.actionButton]}
+            onPress={() => navigation.navigate('TransactionReport')}
+          >
+            <Text style={styles.buttonText}>Laporan</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {Platform.OS === 'ios' && (
@@ -456,6 +402,18 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
         </TouchableOpacity>
       )}
 
+      {linkedInvoice && (
+        <View style={styles.filterContainer}>
+          <Text style={styles.filterTitle}>Transaksi {linkedInvoice}</Text>
+          <TouchableOpacity
+            style={[styles.button, styles.resetButton]}
+            onPress={() => navigation.setParams({ invoice: undefined })}
+          >
+            <Text style={styles.buttonText}>Tampilkan Semua</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.filterContainer}>
         <Text style={styles.filterTitle}>Filter</Text>
         <View style={styles.filterRow}>
@@ -530,12 +488,14 @@ const TransactionIndex: React.FC<Props> = ({ navigation }) => {
         />
       )}
 
-      <TouchableOpacity
-        style={[styles.button, styles.createButton]}
-        onPress={() => navigation.navigate('TransactionCreate')}
-      >
-        <Text style={styles.buttonText}>+ Buat Transaksi</Text>
-      </TouchableOpacity>
+      {can('transaction.create') && (
+        <TouchableOpacity
+          style={[styles.button, styles.createButton]}
+          onPress={() => navigation.navigate('TransactionCreate')}
+        >
+          <Text style={styles.buttonText}>+ Buat Transaksi</Text>
+        </TouchableOpacity>
+      )}
 
       <Modal
         visible={showPrintPopup}
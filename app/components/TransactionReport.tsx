@@ -1,42 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TextInput, ActivityIndicator, TouchableOpacity, Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
-
-interface TransactionItem {
-  id: number;
-  product_id: number;
-  product_name: string;
-  product_unit_id: number;
-  unit_code: string;
-  color: string | null;
-  size: string | null;
-  quantity: number;
-  price: number;
-  discount: number;
-  subtotal: number;
-}
-
-interface Transaction {
-  id: number;
-  invoice_number: string;
-  user_id: number;
-  user_name: string;
-  total_amount: number;
-  tax_amount: number;
-  discount_amount: number;
-  final_amount: number;
-  payment_method: string;
-  card_type: string | null;
-  payment_status: string;
-  customer_name: string;
-  customer_phone: string;
-  customer_email: string | null;
-  notes: string | null;
-  created_at: string;
-  items: TransactionItem[];
-}
+import { api, isUnauthorized } from '@/services/api';
+import { toTransaction, Transaction } from '@/services/domain';
+import { transactionListResponseSchema } from '@/services/schemas';
 
 const TransactionReport = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -51,7 +19,6 @@ const TransactionReport = () => {
   const [paymentType, setPaymentType] = useState('');
 
   const WIB_OFFSET = 7 * 60 * 60 * 1000;
-  const API_URL = 'https://testingaplikasi.tokosepatusovan.com/api/transactions';
 
   useEffect(() => {
     fetchTransactions();
@@ -64,29 +31,12 @@ const TransactionReport = () => {
   const fetchTransactions = async () => {
     try {
       setLoading(true);
-      const token = await AsyncStorage.getItem('token');
-      if (!token) {
-        throw new Error('No authentication token found');
-      }
-
-      const response = await fetch(API_URL, {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        setTransactions(result.data.transactions);
-        setFilteredTransactions(result.data.transactions);
-      }
+      const result = await api.get('/transactions', { schema: transactionListResponseSchema });
+      const loaded = result.data.transactions.map(toTransaction);
+      setTransactions(loaded);
+      setFilteredTransactions(loaded);
     } catch (error) {
+      if (isUnauthorized(error)) return;
       console.error('Error fetching transactions:', error);
     } finally {
       setLoading(false);
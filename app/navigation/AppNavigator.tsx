@@ -1,5 +1,13 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { CommonActions } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { useNavigationContainerRef } from 'expo-router';
+import * as Linking from 'expo-linking';
+import * as SplashScreen from 'expo-splash-screen';
+import { deepLinkRoute, holdDeepLink, takeDeepLink } from '@/services/deepLinks';
+import { onSessionExpired, restoreSession, ReturnRoute, saveReturnRoute } from '@/services/session';
+import { startQueueSync } from '@/services/transactionQueue';
 import Login from '../components/Login';
 import Logout from '../components/Logout';
 import Inventory from '../components/Inventory';
@@ -8,25 +16,152 @@ import TransactionCreate from '../components/TransactionCreate';
 import TransactionReport from '../components/TransactionReport';
 import Monitoring from '../components/Monitoring';
 import Dashboard from '../components/Dashboard';
+import CashierSwitch from '../components/CashierSwitch';
+import ProductCreate from '../components/ProductCreate';
+import ProductVariants from '../components/ProductVariants';
+import ProductUnits from '../components/ProductUnits';
+import LabelPrint from '../components/LabelPrint';
+import StockTake from '../components/StockTake';
+import StockMovements from '../components/StockMovements';
+import ReorderReport from '../components/ReorderReport';
+import StockThresholds from '../components/StockThresholds';
+import CatalogImport from '../components/CatalogImport';
+import ProductPhoto from '../components/ProductPhoto';
+import Receiving from '../components/Receiving';
+import BulkPricing from '../components/BulkPricing';
+import { withPermission } from '@/components/withPermission';
 
 // Define navigation param list
 type RootStackParamList = {
-  Login: undefined;
+  Login: { sessionExpired?: boolean } | undefined;
   Logout: undefined;
-  Inventory: undefined;
-  TransactionIndex: { showPrint?: boolean };
+  Inventory: { productId?: number; unitCode?: string } | undefined;
+  TransactionIndex: { showPrint?: boolean; invoice?: string } | undefined;
   TransactionCreate: undefined;
   TransactionReport: undefined;
   Monitoring: undefined;
   Dashboard: undefined;
+  CashierSwitch: undefined;
+  ProductCreate: undefined;
+  ProductVariants: { productId: number };
+  ProductUnits: { productId: number };
+  LabelPrint: { productIds: number[]; unitCodes?: string[] };
+  StockTake: undefined;
+  StockMovements: { productId: number; unitCode?: string };
+  ReorderReport: undefined;
+  StockThresholds: undefined;
+  CatalogImport: undefined;
+  ProductPhoto: { productId: number };
+  Receiving: undefined;
+  BulkPricing: { productIds: number[]; scope: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+// Keep the splash screen up until the stored session has been checked
+SplashScreen.preventAutoHideAsync().catch(() => {
+  // Already hidden, e.g. after a fast refresh
+});
+
+// Screens that need a session; role-restricted ones also need a permission (see services/permissions.ts)
+const DashboardScreen = withPermission(null, Dashboard);
+const LogoutScreen = withPermission(null, Logout);
+const InventoryScreen = withPermission('inventory.view', Inventory);
+const TransactionIndexScreen = withPermission('transaction.view', TransactionIndex);
+const TransactionCreateScreen = withPermission('transaction.create', TransactionCreate);
+const TransactionReportScreen = withPermission('report.view', TransactionReport);
+const MonitoringScreen = withPermission('monitoring.view', Monitoring);
+const CashierSwitchScreen = withPermission('transaction.create', CashierSwitch);
+const ProductCreateScreen = withPermission('inventory.edit', ProductCreate);
+const ProductVariantsScreen = withPermission('inventory.edit', ProductVariants);
+const ProductUnitsScreen = withPermission('inventory.view', ProductUnits);
+const LabelPrintScreen = withPermission('inventory.view', LabelPrint);
+const StockTakeScreen = withPermission('inventory.view', StockTake);
+const StockMovementsScreen = withPermission('inventory.view', StockMovements);
+const ReorderReportScreen = withPermission('inventory.view', ReorderReport);
+const StockThresholdsScreen = withPermission('inventory.edit', StockThresholds);
+const CatalogImportScreen = withPermission('inventory.edit', CatalogImport);
+const ProductPhotoScreen = withPermission('inventory.edit', ProductPhoto);
+const ReceivingScreen = withPermission('inventory.edit', Receiving);
+const BulkPricingScreen = withPermission('inventory.edit', BulkPricing);
+
 const AppNavigator = () => {
+  const navigationRef = useNavigationContainerRef();
+  const [initialRoute, setInitialRoute] = useState<'Login' | 'Dashboard' | null>(null);
+
+  // A user who never logged out goes straight to the Dashboard.
+  // A link that launched the app is held until the navigator (or Login) can open it.
+  useEffect(() => {
+    Promise.all([restoreSession(), Linking.getInitialURL()])
+      .then(([user, url]) => {
+        const link = url ? deepLinkRoute(url) : null;
+        if (link) holdDeepLink(link);
+        setInitialRoute(user ? 'Dashboard' : 'Login');
+      })
+      .catch((error) => {
+        console.error('Gagal memulihkan sesi:', error);
+        setInitialRoute('Login');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (initialRoute) {
+      SplashScreen.hideAsync().catch(() => {});
+    }
+  }, [initialRoute]);
+
+  // Deep links open on top of the current screen once the session is confirmed;
+  // while logged out they wait for Login. The screen's own permission guard still applies.
+  useEffect(() => {
+    if (!initialRoute) return;
+    const openRoute = (route: ReturnRoute) => {
+      if (navigationRef.isReady()) {
+        navigationRef.dispatch(CommonActions.navigate(route));
+      } else {
+        holdDeepLink(route);
+      }
+    };
+    const openUrl = async (url: string) => {
+      const route = deepLinkRoute(url);
+      if (!route) return;
+      if (await restoreSession()) {
+        openRoute(route);
+      } else {
+        holdDeepLink(route);
+      }
+    };
+
+    if (initialRoute === 'Dashboard') {
+      const held = takeDeepLink();
+      if (held) openRoute(held);
+    }
+    const subscription = Linking.addEventListener('url', ({ url }) => openUrl(url));
+    return () => subscription.remove();
+  }, [initialRoute, navigationRef]);
+
+  // When the session layer gives up on refreshing the token, remember where the user was
+  // and send them to Login; Login brings them back after they sign in again.
+  useEffect(() => {
+    return onSessionExpired(() => {
+      const route = navigationRef.getCurrentRoute();
+      if (route && route.name !== 'Login') {
+        saveReturnRoute({ name: route.name, params: route.params });
+      }
+      navigationRef.dispatch(
+        CommonActions.reset({ index: 0, routes: [{ name: 'Login', params: { sessionExpired: true } }] })
+      );
+      Alert.alert('Sesi Berakhir', 'Sesi login Anda telah berakhir. Silakan login kembali untuk melanjutkan.');
+    });
+  }, [navigationRef]);
+
+  // Sales queued while offline are posted as soon as the device is back online
+  useEffect(() => startQueueSync(), []);
+
+  if (!initialRoute) return null;
+
   return (
     <Stack.Navigator
-      initialRouteName="Login"
+      initialRouteName={initialRoute}
       screenOptions={{
         headerStyle: {
           backgroundColor: '#1E2A3A',
@@ -44,39 +179,104 @@ const AppNavigator = () => {
       />
       <Stack.Screen
         name="Logout"
-        component={Logout}
+        component={LogoutScreen}
         options={{ title: 'Logout - SEPATU BY SOVAN' }}
       />
       <Stack.Screen
         name="Inventory"
-        component={Inventory}
+        component={InventoryScreen}
         options={{ title: 'Inventory' }}
       />
       <Stack.Screen
         name="TransactionIndex"
-        component={TransactionIndex}
+        component={TransactionIndexScreen}
         options={{ title: 'Daftar Transaksi' }}
       />
       <Stack.Screen
         name="TransactionCreate"
-        component={TransactionCreate}
+        component={TransactionCreateScreen}
         options={{ title: 'Buat Transaksi Baru' }}
       />
       <Stack.Screen
         name="TransactionReport"
-        component={TransactionReport}
+        component={TransactionReportScreen}
         options={{ title: 'Laporan Transaksi' }}
       />
       <Stack.Screen
         name="Monitoring"
-        component={Monitoring}
+        component={MonitoringScreen}
         options={{ title: 'Monitoring' }}
       />
       <Stack.Screen
         name="Dashboard"
-        component={Dashboard}
+        component={DashboardScreen}
         options={{ title: 'Dashboard' }}
       />
+      <Stack.Screen
+        name="CashierSwitch"
+        component={CashierSwitchScreen}
+        options={{ title: 'Ganti Kasir' }}
+      />
+      <Stack.Screen
+        name="ProductCreate"
+        component={ProductCreateScreen}
+        options={{ title: 'Tambah Produk' }}
+      />
+      <Stack.Screen
+        name="ProductVariants"
+        component={ProductVariantsScreen}
+        options={{ title: 'Edit Produk' }}
+      />
+      <Stack.Screen
+        name="ProductUnits"
+        component={ProductUnitsScreen}
+        options={{ title: 'Unit Produk' }}
+      />
+      <Stack.Screen
+        name="LabelPrint"
+        component={LabelPrintScreen}
+        options={{ title: 'Cetak Label' }}
+      />
+      <Stack.Screen
+        name="StockTake"
+        component={StockTakeScreen}
+        options={{ title: 'Stok Opname' }}
+      />
+      <Stack.Screen
+        name="StockMovements"
+        component={StockMovementsScreen}
+        options={{ title: 'Riwayat Stok' }}
+      />
+      <Stack.Screen
+        name="ReorderReport"
+        component={ReorderReportScreen}
+        options={{ title: 'Laporan Restock' }}
+      />
+      <Stack.Screen
+        name="StockThresholds"
+        component={StockThresholdsScreen}
+        options={{ title: 'Batas Stok Minimum' }}
+      />
+      <Stack.Screen
+        name="CatalogImport"
+        component={CatalogImportScreen}
+        options={{ title: 'Impor Katalog' }}
+      />
+      <Stack.Screen
+        name="ProductPhoto"
+        component={ProductPhotoScreen}
+        options={{ title: 'Foto Produk' }}
+      />
+      <Stack.Screen
+        name="Receiving"
+        component={ReceivingScreen}
+        options={{ title: 'Penerimaan Barang' }}
+      />
+      <Stack.Screen
+        name="BulkPricing"
+        component={BulkPricingScreen}
+        options={{ title: 'Ubah Harga' }}
+      />
     </Stack.Navigator>
   );
 };
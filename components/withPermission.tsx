@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CommonActions, useNavigation } from '@react-navigation/native';
+import { Permission, ROLE_LABELS, usePermissions } from '@/services/permissions';
+
+// Wraps a screen so it only renders for a signed-in user whose role has `permission` (any role when null).
+// Used by the navigator, so a screen stays closed even when reached by a stale link or back stack.
+// Without a session the whole stack is replaced by Login.
+export function withPermission<P extends object>(permission: Permission | null, Screen: React.ComponentType<P>) {
+  const Guarded = (props: P) => {
+    const { ready, user, role, can } = usePermissions();
+    const navigation = useNavigation();
+    const signedOut = ready && !user;
+
+    useEffect(() => {
+      if (signedOut) {
+        navigation.dispatch(CommonActions.reset({ index: 0, routes: [{ name: 'Login' }] }));
+      }
+    }, [signedOut, navigation]);
+
+    if (!ready || signedOut) {
+      return (
+        <View style={styles.container}>
+          <ActivityIndicator size="large" color="#FF6B35" />
+        </View>
+      );
+    }
+
+    if (permission && !can(permission)) {
+      return (
+        <View style={styles.container}>
+          <Text style={styles.title}>Akses Ditolak</Text>
+          <Text style={styles.message}>
+            {role && `Peran ${ROLE_LABELS[role]} tidak memiliki akses ke halaman ini.`}
+          </Text>
+          {navigation.canGoBack() && (
+            <TouchableOpacity style={styles.button} onPress={() => navigation.goBack()}>
+              <Text style={styles.buttonText}>Kembali</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return <Screen {...props} />;
+  };
+  Guarded.displayName = `withPermission(${Screen.displayName || Screen.name || 'Screen'})`;
+  return Guarded;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#1E2A3A',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 15,
+    color: '#8892B0',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: '#FF6B35',
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
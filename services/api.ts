@@ -0,0 +1,194 @@
+import axios, { AxiosRequestConfig, Method } from 'axios';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { environment } from './environment';
+
+// Shared HTTP client for the Sovan backend.
+// Owns the base URL, auth header, timeouts, retries and turns every failure into an ApiError.
+
+const DEFAULT_TIMEOUT = 15000; // 15 seconds
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_DELAY = 1000; // 1 second, multiplied by the attempt number
+
+// 'invalid_response': the backend answered 2xx but the body does not match the expected schema
+export type ApiErrorKind = 'network' | 'timeout' | 'unauthorized' | 'http' | 'invalid_response';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null, fieldErrors: Record<string, string[]> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+
+  // Network and timeout failures are worth retrying, and so are server-side (5xx) errors
+  get isTransient(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || (this.status !== null && this.status >= 500);
+  }
+}
+
+// Error body shapes used by the backend (Laravel validation uses "errors", login uses "pesan")
+interface ApiErrorBody {
+  success?: boolean;
+  message?: string;
+  pesan?: string;
+  errors?: Record<string, string[]>;
+}
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface RequestOptions<T = unknown> {
+  params?: QueryParams;
+  headers?: Record<string, string>;
+  // Send the stored bearer token (default true)
+  auth?: boolean;
+  // Extra attempts after the first one; GET defaults to 2, writes to 0
+  retries?: number;
+  timeout?: number;
+  // Let the session layer refresh the token and replay the request once after a 401 (default true)
+  refreshOnUnauthorized?: boolean;
+  // Decoder for the response body (see services/schemas.ts); the decoded value is returned
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+}
+
+// Wired up by the session layer (services/session.ts) so this module stays free of storage details
+export interface AuthHandlers {
+  getToken: () => Promise<string | null>;
+  // Resolves true when a fresh token is available and the failed request may be replayed
+  onUnauthorized: () => Promise<boolean>;
+}
+
+let authHandlers: AuthHandlers = {
+  getToken: async () => null,
+  onUnauthorized: async () => false,
+};
+
+export const configureAuth = (handlers: AuthHandlers) => {
+  authHandlers = handlers;
+};
+
+export const isUnauthorized = (error: unknown): boolean =>
+  error instanceof ApiError && error.kind === 'unauthorized';
+
+// Message a screen shows for a failed request, or null for an expired session: that is handled
+// globally (refresh, then Login), so the screen shows nothing
+export const apiErrorMessage = (error: unknown, fallback: string): string | null => {
+  if (isUnauthorized(error)) return null;
+  return error instanceof ApiError ? error.message : fallback;
+};
+
+const client = axios.create({
+  baseURL: environment.apiUrl,
+  timeout: DEFAULT_TIMEOUT,
+  headers: {
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-cache',
+  },
+});
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const cleanParams = (params?: QueryParams) => {
+  if (!params) return undefined;
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  );
+};
+
+const normalizeError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ApiError('timeout', 'Server terlalu lama merespons. Silakan coba lagi.');
+    }
+    if (!error.response) {
+      return new ApiError('network', 'Tidak dapat terhubung ke server. Periksa koneksi internet.');
+    }
+    const { status, data } = error.response;
+    const body = (data && typeof data === 'object' ? data : {}) as ApiErrorBody;
+    const message = body.message || body.pesan || `Permintaan gagal (HTTP ${status}).`;
+    return new ApiError(status === 401 ? 'unauthorized' : 'http', message, status, body.errors ?? {});
+  }
+
+  return new ApiError('network', error instanceof Error ? error.message : 'Terjadi kesalahan tidak diketahui.');
+};
+
+const decodeResponse = <T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown, path: string, status: number): T => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issue = result.error.issues[0];
+  const field = issue.path.length > 0 ? issue.path.join('.') : 'respons';
+  console.error(`Respons ${path} tidak sesuai format:`, result.error.issues);
+  throw new ApiError(
+    'invalid_response',
+    `Data dari server tidak sesuai format yang diharapkan (${field}: ${issue.message}). Perbarui aplikasi atau hubungi admin.`,
+    status
+  );
+};
+
+const authHeader = async (): Promise<Record<string, string>> => {
+  const token = await authHandlers.getToken();
+  if (!token) {
+    throw new ApiError('unauthorized', 'Sesi login tidak ditemukan. Silakan login kembali.');
+  }
+  return { Authorization: `Bearer ${token}` };
+};
+
+const send = async <T>(method: Method, path: string, body: unknown, options: RequestOptions<T>): Promise<T> => {
+  const { params, headers, auth = true, timeout, schema } = options;
+  const retries = options.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const config: AxiosRequestConfig = {
+        method,
+        url: path,
+        data: body,
+        params: cleanParams(params),
+        timeout,
+        headers: { ...(auth ? await authHeader() : {}), ...headers },
+      };
+      const response = await client.request(config);
+
+      // Some endpoints answer 200 with { success: false, message }
+      const result = response.data as ApiErrorBody | undefined;
+      if (result && typeof result === 'object' && result.success === false) {
+        throw new ApiError('http', result.message || 'Permintaan ditolak oleh server.', response.status, result.errors ?? {});
+      }
+      return schema ? decodeResponse(schema, response.data, path, response.status) : (response.data as T);
+    } catch (error) {
+      const apiError = normalizeError(error);
+      if (attempt >= retries || !apiError.isTransient) {
+        throw apiError;
+      }
+      await delay(RETRY_DELAY * (attempt + 1));
+    }
+  }
+};
+
+const request = async <T>(method: Method, path: string, body: unknown, options: RequestOptions<T> = {}): Promise<T> => {
+  const { auth = true, refreshOnUnauthorized = true } = options;
+  try {
+    return await send<T>(method, path, body, options);
+  } catch (error) {
+    if (auth && refreshOnUnauthorized && isUnauthorized(error) && (await authHandlers.onUnauthorized())) {
+      return send<T>(method, path, body, options);
+    }
+    throw error;
+  }
+};
+
+export const api = {
+  get: <T>(path: string, options?: RequestOptions<T>) => request<T>('GET', path, undefined, options),
+  post: <T>(path: string, body?: unknown, options?: RequestOptions<T>) => request<T>('POST', path, body, options),
+  put: <T>(path: string, body?: unknown, options?: RequestOptions<T>) => request<T>('PUT', path, body, options),
+  patch: <T>(path: string, body?: unknown, options?: RequestOptions<T>) => request<T>('PATCH', path, body, options),
+  delete: <T>(path: string, options?: RequestOptions<T>) => request<T>('DELETE', path, undefined, options),
+};
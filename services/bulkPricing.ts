@@ -0,0 +1,105 @@
+import { api } from './api';
+import { Product, toProduct } from './domain';
+import { saveLocalProduct } from './productSync';
+import { bulkPriceResponseSchema } from './schemas';
+
+// Price changes applied to many products at once (a promotion, a price list update).
+// Every operation is previewed first; only products whose prices change are sent, in one request.
+
+export type PriceOperation =
+  // Discount price = selling price minus `percent`
+  | { kind: 'discount_percent'; percent: number }
+  // Selling price raised (positive) or lowered (negative) by `percent`
+  | { kind: 'adjust_percent'; percent: number }
+  // Nearest multiple of `step`, on the selling price or on the discount price
+  | { kind: 'round'; step: number; target: 'selling' | 'discount' }
+  | { kind: 'clear_discount' };
+
+export interface Prices {
+  selling_price: number;
+  discount_price: number | null;
+}
+
+export interface PriceChange {
+  product: Product;
+  before: Prices;
+  after: Prices;
+  // Why the new prices cannot be saved; the product is skipped
+  error: string | null;
+}
+
+export interface PriceResult {
+  product: Product;
+  ok: boolean;
+  message: string;
+}
+
+const roundTo = (amount: number, step: number) => Math.max(step, Math.round(amount / step) * step);
+
+const applyOperation = (prices: Prices, operation: PriceOperation): Prices => {
+  switch (operation.kind) {
+    case 'discount_percent':
+      return { ...prices, discount_price: Math.round(prices.selling_price * (1 - operation.percent / 100)) };
+    case 'adjust_percent':
+      return { ...prices, selling_price: Math.round(prices.selling_price * (1 + operation.percent / 100)) };
+    case 'round':
+      return operation.target === 'selling'
+        ? { ...prices, selling_price: roundTo(prices.selling_price, operation.step) }
+        : { ...prices, discount_price: prices.discount_price === null ? null : roundTo(prices.discount_price, operation.step) };
+    default:
+      return { ...prices, discount_price: null };
+  }
+};
+
+const validate = (prices: Prices) => {
+  if (prices.selling_price <= 0) return 'Harga jual harus lebih dari 0.';
+  if (prices.discount_price !== null && prices.discount_price <= 0) return 'Harga diskon harus lebih dari 0.';
+  if (prices.discount_price !== null && prices.discount_price >= prices.selling_price) {
+    return 'Harga diskon harus lebih kecil dari harga jual.';
+  }
+  return null;
+};
+
+export const samePrices = (a: Prices, b: Prices) => a.selling_price === b.selling_price && a.discount_price === b.discount_price;
+
+// Before/after prices of every product; products the operation does not change are left out
+export const previewPriceChanges = (products: Product[], operation: PriceOperation): PriceChange[] =>
+  products
+    .map((product) => {
+      const before = { selling_price: product.selling_price, discount_price: product.discount_price };
+      const after = applyOperation(before, operation);
+      return { product, before, after, error: validate(after) };
+    })
+    .filter((change) => !samePrices(change.before, change.after));
+
+const skipped = (change: PriceChange): PriceResult => ({ product: change.product, ok: false, message: `Dilewati: ${change.error}` });
+
+// Send every valid change in one request; the backend reports which products it rejected
+export const applyPriceChanges = async (changes: PriceChange[]): Promise<PriceResult[]> => {
+  const valid = changes.filter((change) => !change.error);
+  if (valid.length === 0) return changes.map(skipped);
+  const response = await api.put(
+    '/products/prices',
+    {
+      items: valid.map((change) => ({
+        product_id: change.product.id,
+        selling_price: change.after.selling_price,
+        discount_price: change.after.discount_price,
+      })),
+    },
+    { schema: bulkPriceResponseSchema }
+  );
+
+  const updated = new Map(response.data.updated.map((dto) => [dto.id, toProduct(dto)]));
+  const failed = new Map(response.data.failed.map((item) => [item.product_id, item.message]));
+  for (const product of updated.values()) {
+    await saveLocalProduct(product);
+  }
+
+  return changes.map((change): PriceResult => {
+    if (change.error) return skipped(change);
+    const saved = updated.get(change.product.id);
+    if (saved) return { product: saved, ok: true, message: 'Harga diperbarui.' };
+    return { product: change.product, ok: false, message: failed.get(change.product.id) || 'Tidak diproses oleh server.' };
+  });
+};
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { isDeviceUnlockAvailable } from './credentials';
+import type { Role } from './permissions';
+import { getSecureItem, SECURE_CASHIERS_KEY, SECURE_PIN_LOCKOUT_KEY, setSecureItem } from './secureStorage';
+
+// Cashier quick-switch for a shared counter device.
+// The store stays logged in with one account; each staff member unlocks the running app with a
+// personal PIN and is recorded on the sales they make. PINs are stored salted and hashed.
+// While a roster exists, the app works with the unlocked cashier's role (services/permissions.ts);
+// the owner gets the full account back by unlocking the store account with device authentication.
+
+const ACTIVE_CASHIER_KEY = 'active_cashier';
+const STORE_ACCOUNT_KEY = 'store_account_unlocked';
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 30 * 1000;
+
+// Roles a cashier can be given; owners unlock the store account itself (unlockStoreAccount)
+export type CashierRole = Extract<Role, 'admin' | 'cashier'>;
+
+export interface Cashier {
+  id: string;
+  name: string;
+  role: CashierRole;
+}
+
+interface StoredCashier extends Cashier {
+  salt: string;
+  pinHash: string;
+}
+
+type ChangeListener = () => void;
+
+// Kept in secure storage, so restarting the app does not reset the wrong-PIN count
+interface PinLockout {
+  failedAttempts: number;
+  lockedUntil: number;
+}
+
+const listeners = new Set<ChangeListener>();
+
+export const isValidPin = (pin: string) => /^\d{4,6}$/.test(pin);
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+// Cashiers saved before roles existed are plain cashiers
+const readRoster = async (): Promise<StoredCashier[]> => {
+  const saved = await getSecureItem(SECURE_CASHIERS_KEY);
+  if (!saved) return [];
+  try {
+    return (JSON.parse(saved) as StoredCashier[]).map((cashier) => ({
+      ...cashier,
+      role: cashier.role === 'admin' ? 'admin' : 'cashier',
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const readLockout = async (): Promise<PinLockout> => {
+  const saved = await getSecureItem(SECURE_PIN_LOCKOUT_KEY);
+  if (!saved) return { failedAttempts: 0, lockedUntil: 0 };
+  try {
+    return JSON.parse(saved) as PinLockout;
+  } catch {
+    return { failedAttempts: 0, lockedUntil: 0 };
+  }
+};
+
+const saveLockout = (lockout: PinLockout) => setSecureItem(SECURE_PIN_LOCKOUT_KEY, JSON.stringify(lockout));
+
+const notifyChange = () => listeners.forEach((listener) => listener());
+
+const saveRoster = async (roster: StoredCashier[]) => {
+  await setSecureItem(SECURE_CASHIERS_KEY, JSON.stringify(roster));
+  notifyChange();
+};
+
+const toCashier = ({ id, name, role }: StoredCashier): Cashier => ({ id, name, role });
+
+export const getCashiers = async (): Promise<Cashier[]> => (await readRoster()).map(toCashier);
+
+// The roster always keeps an admin: once it exists, only an unlocked admin cashier can manage it
+export const addCashier = async (name: string, pin: string, role: CashierRole): Promise<Cashier> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Nama kasir harus diisi.');
+  if (!isValidPin(pin)) throw new Error('PIN harus 4 sampai 6 angka.');
+  const roster = await readRoster();
+  if (roster.some((cashier) => cashier.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`Kasir "${trimmed}" sudah terdaftar.`);
+  }
+  if (roster.length === 0 && role !== 'admin') {
+    throw new Error('Kasir pertama harus berperan Admin, agar daftar kasir tetap bisa dikelola.');
+  }
+  const salt = Crypto.randomUUID();
+  const cashier: StoredCashier = { id: Crypto.randomUUID(), name: trimmed, role, salt, pinHash: await hashPin(pin, salt) };
+  await saveRoster([...roster, cashier]);
+  return toCashier(cashier);
+};
+
+export const removeCashier = async (id: string) => {
+  const roster = await readRoster();
+  const remaining = roster.filter((cashier) => cashier.id !== id);
+  if (remaining.length > 0 && !remaining.some((cashier) => cashier.role === 'admin')) {
+    throw new Error('Admin terakhir tidak bisa dihapus selama masih ada kasir lain.');
+  }
+  await saveRoster(remaining);
+  if ((await getActiveCashier())?.id === id) {
+    await lockCashier();
+  }
+};
+
+// The unlocked cashier as currently in the roster, so a changed role applies right away
+export const getActiveCashier = async (): Promise<Cashier | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(ACTIVE_CASHIER_KEY);
+    if (!saved) return null;
+    const { id } = JSON.parse(saved) as Cashier;
+    const cashier = (await readRoster()).find((item) => item.id === id);
+    return cashier ? toCashier(cashier) : null;
+  } catch (error) {
+    console.error('Gagal membaca kasir aktif:', error);
+    return null;
+  }
+};
+
+// True while the store account itself is at the counter instead of a cashier from the roster
+export const isStoreAccountUnlocked = async (): Promise<boolean> => {
+  try {
+    return (await AsyncStorage.getItem(STORE_ACCOUNT_KEY)) === 'true';
+  } catch (error) {
+    console.error('Gagal membaca status akun toko:', error);
+    return false;
+  }
+};
+
+// Whoever unlocks replaces whoever was at the counter, cashier or store account
+const setActiveCashier = async (cashier: Cashier | null) => {
+  await AsyncStorage.removeItem(STORE_ACCOUNT_KEY);
+  if (cashier) {
+    await AsyncStorage.setItem(ACTIVE_CASHIER_KEY, JSON.stringify(cashier));
+  } else {
+    await AsyncStorage.removeItem(ACTIVE_CASHIER_KEY);
+  }
+  notifyChange();
+};
+
+// Called when a cashier is added, removed, unlocked or locked
+export const subscribeCashiers = (listener: ChangeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Milliseconds until PIN entry is allowed again after too many wrong PINs
+export const pinLockoutRemaining = async () => Math.max(0, (await readLockout()).lockedUntil - Date.now());
+
+// Makes `id` the active cashier when the PIN matches; null for a wrong PIN or during a lockout
+export const unlockCashier = async (id: string, pin: string): Promise<Cashier | null> => {
+  const lockout = await readLockout();
+  if (lockout.lockedUntil > Date.now()) return null;
+  const cashier = (await readRoster()).find((item) => item.id === id);
+  if (!cashier || (await hashPin(pin, cashier.salt)) !== cashier.pinHash) {
+    const failedAttempts = lockout.failedAttempts + 1;
+    await saveLockout(
+      failedAttempts >= MAX_PIN_ATTEMPTS
+        ? { failedAttempts: 0, lockedUntil: Date.now() + PIN_LOCKOUT_MS }
+        : { failedAttempts, lockedUntil: 0 }
+    );
+    return null;
+  }
+  await saveLockout({ failedAttempts: 0, lockedUntil: 0 });
+  const active = toCashier(cashier);
+  await setActiveCashier(active);
+  return active;
+};
+
+// Nobody is at the counter; the next sale needs a PIN again
+export const lockCashier = () => setActiveCashier(null);
+
+// Gives the logged-in account its own role back on a device with a roster, after fingerprint, face
+// or device PIN. False when cancelled; throws when the device has no screen lock to ask for.
+export const unlockStoreAccount = async (): Promise<boolean> => {
+  if (!(await isDeviceUnlockAvailable())) {
+    throw new Error('Aktifkan kunci layar (PIN, sidik jari, atau wajah) di perangkat ini untuk membuka akun toko.');
+  }
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage: 'Buka akun toko',
+    cancelLabel: 'Batal',
+    fallbackLabel: 'Gunakan PIN',
+    disableDeviceFallback: false,
+  });
+  if (!result.success) return false;
+  await AsyncStorage.removeItem(ACTIVE_CASHIER_KEY);
+  await AsyncStorage.setItem(STORE_ACCOUNT_KEY, 'true');
+  notifyChange();
+  return true;
+};
+
+export interface CashierState {
+  // False until the roster and active cashier have been read
+  ready: boolean;
+  cashiers: Cashier[];
+  active: Cashier | null;
+  // The store account itself is unlocked (see unlockStoreAccount)
+  storeAccount: boolean;
+}
+
+// Roster and active cashier; when the roster is empty the logged-in user sells as before
+export const useCashiers = (): CashierState => {
+  const [state, setState] = useState<CashierState>({ ready: false, cashiers: [], active: null, storeAccount: false });
+
+  useEffect(() => {
+    let mounted = true;
+    const load = () =>
+      Promise.all([getCashiers(), getActiveCashier(), isStoreAccountUnlocked()]).then(([cashiers, active, storeAccount]) => {
+        if (mounted) setState({ ready: true, cashiers, active, storeAccount });
+      });
+    load();
+    const unsubscribe = subscribeCashiers(load);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return state;
+};
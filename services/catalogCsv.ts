@@ -0,0 +1,337 @@
+import { api, ApiError, isUnauthorized } from './api';
+import { CsvValue, parseCsv, toCsv } from './csv';
+import {
+  isSameSize,
+  normalizeUnitCode,
+  Product,
+  ProductPayload,
+  ProductVariantsPayload,
+  sameText,
+  toProduct,
+  variantsOf,
+} from './domain';
+import { getLocalProducts, saveLocalProduct } from './productSync';
+import { productCreateResponseSchema, productVariantsResponseSchema } from './schemas';
+
+// Inventory catalog as a spreadsheet: one row per product (one size), with its unit codes.
+// Importing is planned first (a dry run against the local catalog) and only sent to the API on request.
+// Unit codes are made by the server: on import they are only checked against the catalog.
+
+const COLUMNS = ['id', 'brand', 'model', 'warna', 'ukuran', 'stok', 'harga_jual', 'harga_diskon', 'kode_unit'] as const;
+
+type Column = (typeof COLUMNS)[number];
+
+// Headers accepted on import besides the exported ones, e.g. from a supplier's English price list
+const COLUMN_ALIASES: Record<string, Column> = {
+  color: 'warna',
+  size: 'ukuran',
+  stock: 'stok',
+  price: 'harga_jual',
+  selling_price: 'harga_jual',
+  discount_price: 'harga_diskon',
+  unit_codes: 'kode_unit',
+};
+
+export const catalogCsv = (products: Product[]) =>
+  toCsv([
+    [...COLUMNS],
+    ...products.map((product): CsvValue[] => [
+      product.id,
+      product.brand,
+      product.model,
+      product.color,
+      product.size,
+      product.stock,
+      product.selling_price,
+      product.discount_price,
+      product.units.map((unit) => unit.unit_code).join(' '),
+    ]),
+  ]);
+
+export type ImportAction = 'new' | 'update' | 'unchanged' | 'conflict' | 'error';
+
+export interface ImportRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  action: ImportAction;
+  label: string;
+  // What changes (update), or why the row cannot be imported (conflict, error)
+  messages: string[];
+  productId: number | null;
+  payload: ProductPayload | null;
+}
+
+export interface ImportResult {
+  row: ImportRow;
+  ok: boolean;
+  message: string;
+}
+
+// "Rp 150.000", "150,000" and "150000.00" are all 150000; cents are dropped, rupiah prices have none
+const parseAmount = (value: string) => {
+  const digits = value
+    .replace(/rp/i, '')
+    .replace(/\s/g, '')
+    .replace(/[.,]\d{1,2}$/, '')
+    .replace(/[.,]/g, '');
+  return digits === '' ? null : Number(digits);
+};
+
+const formatAmount = (amount: number | null) => (amount === null ? '-' : new Intl.NumberFormat('id-ID').format(amount));
+
+const headerIndexes = (header: string[]) => {
+  const indexes: Partial<Record<Column, number>> = {};
+  header.forEach((name, index) => {
+    const key = name.trim().toLowerCase().replace(/\s+/g, '_');
+    const column = (COLUMNS as readonly string[]).includes(key) ? (key as Column) : COLUMN_ALIASES[key];
+    if (column && indexes[column] === undefined) indexes[column] = index;
+  });
+  return indexes;
+};
+
+const parseUnitCodes = (value: string) => value.split(/[\s,;]+/).filter(Boolean).map(normalizeUnitCode);
+
+const sameUnitCodes = (product: Product, unitCodes: string[]) => {
+  const current = new Set(product.units.map((unit) => normalizeUnitCode(unit.unit_code)));
+  return current.size === new Set(unitCodes).size && unitCodes.every((code) => current.has(code));
+};
+
+const renames = (product: Product, payload: ProductPayload) =>
+  !sameText(product.brand, payload.brand) || !sameText(product.model, payload.model) || !sameText(product.color, payload.color);
+
+const describeChanges = (product: Product, payload: ProductPayload) => {
+  const size = payload.sizes[0];
+  const changes: string[] = [];
+  if (!sameText(product.brand, payload.brand)) changes.push(`Brand: ${product.brand} → ${payload.brand}`);
+  if (!sameText(product.model, payload.model)) changes.push(`Model: ${product.model} → ${payload.model}`);
+  if (!sameText(product.color, payload.color)) changes.push(`Warna: ${product.color || '-'} → ${payload.color || '-'}`);
+  if (!sameText(product.size, size.size)) changes.push(`Ukuran: ${product.size} → ${size.size}`);
+  if (product.stock !== size.stock) changes.push(`Stok: ${product.stock} → ${size.stock}`);
+  if (product.selling_price !== payload.selling_price) {
+    changes.push(`Harga: ${formatAmount(product.selling_price)} → ${formatAmount(payload.selling_price)}`);
+  }
+  if (product.discount_price !== payload.discount_price) {
+    changes.push(`Diskon: ${formatAmount(product.discount_price)} → ${formatAmount(payload.discount_price)}`);
+  }
+  return changes;
+};
+
+// Dry run: what each row of `content` would do to the catalog in `products`
+export const planCatalogImport = (content: string, products: Product[]): ImportRow[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error('File CSV kosong.');
+  const indexes = headerIndexes(header);
+  const missing = (['brand', 'model', 'ukuran', 'stok', 'harga_jual'] as Column[]).filter((column) => indexes[column] === undefined);
+  if (missing.length > 0) throw new Error(`Kolom wajib tidak ada: ${missing.join(', ')}.`);
+
+  const cell = (row: string[], column: Column) => {
+    const index = indexes[column];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  // Product each row resolved to, to catch the same product listed twice
+  const claimed = new Map<number, number>();
+  const newKeys = new Map<string, number>();
+
+  const planned = rows.map((row, index): ImportRow => {
+    const line = index + 2;
+    const brand = cell(row, 'brand');
+    const model = cell(row, 'model');
+    const color = cell(row, 'warna');
+    const size = cell(row, 'ukuran').toUpperCase();
+    const label = [brand, model, color, size && `ukuran ${size}`].filter(Boolean).join(' ') || `Baris ${line}`;
+    const base = { line, label, productId: null, payload: null };
+
+    const errors: string[] = [];
+    if (!brand) errors.push('Brand kosong.');
+    if (!model) errors.push('Model kosong.');
+    if (!size) errors.push('Ukuran kosong.');
+    const stock = Number(cell(row, 'stok'));
+    if (cell(row, 'stok') === '' || !Number.isInteger(stock) || stock < 0) errors.push('Stok harus angka 0 atau lebih.');
+    const sellingPrice = parseAmount(cell(row, 'harga_jual'));
+    if (sellingPrice === null || !Number.isFinite(sellingPrice) || sellingPrice <= 0) errors.push('Harga jual tidak valid.');
+    const discountPrice = parseAmount(cell(row, 'harga_diskon'));
+    if (discountPrice !== null && (!Number.isFinite(discountPrice) || discountPrice < 0 || discountPrice >= (sellingPrice ?? 0))) {
+      errors.push('Harga diskon harus lebih kecil dari harga jual.');
+    }
+    const unitCodes = parseUnitCodes(cell(row, 'kode_unit'));
+    const idText = cell(row, 'id');
+    const id = idText ? Number(idText) : null;
+    if (id !== null && !Number.isInteger(id)) errors.push('ID tidak valid.');
+    if (errors.length > 0) return { ...base, action: 'error', messages: errors };
+
+    const payload: ProductPayload = {
+      brand,
+      model,
+      color: color || null,
+      sizes: [{ size, stock }],
+      selling_price: sellingPrice as number,
+      discount_price: discountPrice,
+    };
+    const byId = id !== null ? products.find((product) => product.id === id) : undefined;
+    if (id !== null && !byId) {
+      return { ...base, action: 'conflict', messages: [`Produk dengan ID ${id} tidak ada di inventaris.`] };
+    }
+    const byName = products.find((product) => isSameSize(product, { brand, model, color, size }));
+    if (byId && byName && byName.id !== byId.id) {
+      return {
+        ...base,
+        action: 'conflict',
+        messages: [`ID ${id} berbeda dengan produk yang sudah ada untuk ${label} (ID ${byName.id}).`],
+      };
+    }
+
+    const product = byId ?? byName;
+    if (!product) {
+      const key = [brand, model, color, size].map((value) => value.toLowerCase()).join('|');
+      const firstLine = newKeys.get(key);
+      if (firstLine !== undefined) {
+        return { ...base, action: 'conflict', messages: [`Produk baru yang sama sudah ada di baris ${firstLine}.`] };
+      }
+      newKeys.set(key, line);
+      const messages = [`Stok ${stock} · Harga ${formatAmount(payload.selling_price)}`];
+      if (unitCodes.length > 0) messages.push('Kode unit di file diabaikan; server membuat kode unit baru.');
+      return { ...base, action: 'new', messages, payload };
+    }
+
+    const firstLine = claimed.get(product.id);
+    if (firstLine !== undefined) {
+      return { ...base, action: 'conflict', messages: [`Produk yang sama sudah diubah di baris ${firstLine}.`], productId: product.id };
+    }
+    claimed.set(product.id, line);
+    // An empty cell leaves the units alone; listed codes must be exactly the product's units
+    if (unitCodes.length > 0 && !sameUnitCodes(product, unitCodes)) {
+      return {
+        ...base,
+        action: 'conflict',
+        messages: ['Kode unit berbeda dengan inventaris. Kode unit dibuat oleh server dan tidak bisa diubah lewat impor.'],
+        productId: product.id,
+      };
+    }
+    const changes = describeChanges(product, payload);
+    return changes.length > 0
+      ? { ...base, action: 'update', messages: changes, productId: product.id, payload }
+      : { ...base, action: 'unchanged', messages: [], productId: product.id };
+  });
+
+  // Brand, model and colour belong to every size of a model (they are saved together), so a
+  // rename has to list every size of that model with the same new names
+  return planned.map((row) => {
+    const product = products.find((item) => item.id === row.productId);
+    if (row.action !== 'update' || !row.payload || !product || !renames(product, row.payload)) return row;
+    const renamed = row.payload;
+    const siblings = variantsOf(products, product);
+    const complete = siblings.every((sibling) =>
+      planned.some(
+        (other) =>
+          other.action === 'update' &&
+          other.productId === sibling.id &&
+          other.payload !== null &&
+          sameText(other.payload.brand, renamed.brand) &&
+          sameText(other.payload.model, renamed.model) &&
+          sameText(other.payload.color, renamed.color)
+      )
+    );
+    return complete
+      ? row
+      : {
+          ...row,
+          action: 'conflict',
+          messages: [`Brand, model, dan warna berlaku untuk semua ${siblings.length} ukuran; ubah semua ukurannya dengan nama yang sama.`],
+          payload: null,
+        };
+  });
+};
+
+// Body of PUT /products/variants for the update rows of one model; sizes without a row keep their values
+const toVariantsPayload = (batch: ImportRow[], siblings: Product[]): ProductVariantsPayload => {
+  const payloads = new Map(batch.map((row) => [row.productId, row.payload as ProductPayload]));
+  const first = batch[0].payload as ProductPayload;
+  return {
+    brand: first.brand,
+    model: first.model,
+    color: first.color,
+    variants: siblings.map((sibling) => {
+      const payload = payloads.get(sibling.id);
+      return payload
+        ? {
+            id: sibling.id,
+            size: payload.sizes[0].size,
+            stock: payload.sizes[0].stock,
+            selling_price: payload.selling_price,
+            discount_price: payload.discount_price,
+          }
+        : {
+            id: sibling.id,
+            size: sibling.size,
+            stock: sibling.stock,
+            selling_price: sibling.selling_price,
+            discount_price: sibling.discount_price,
+          };
+    }),
+    stock_reason: siblings.some((sibling) => {
+      const payload = payloads.get(sibling.id);
+      return payload !== undefined && payload.sizes[0].stock !== sibling.stock;
+    })
+      ? 'Impor CSV'
+      : null,
+  };
+};
+
+// Send new rows one by one and changed rows one model at a time. A failed request does not stop
+// the rest, except an expired session: every later row would fail the same way.
+export const applyCatalogImport = async (
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult[]> => {
+  const pending = rows.filter((row) => (row.action === 'new' || row.action === 'update') && row.payload);
+  const products = (await getLocalProducts()) ?? [];
+  const results: ImportResult[] = [];
+  const report = (batch: ImportRow[], ok: boolean, message: string) => {
+    batch.forEach((row) => results.push({ row, ok, message }));
+    onProgress?.(results.length, pending.length);
+  };
+
+  // Update rows grouped with the other sizes of the same model, with those sizes
+  const batches: { rows: ImportRow[]; siblings: Product[] }[] = [];
+  const batched = new Set<ImportRow>();
+  for (const row of pending) {
+    if (batched.has(row)) continue;
+    const product = row.action === 'update' ? products.find((item) => item.id === row.productId) : undefined;
+    const siblings = product ? variantsOf(products, product) : [];
+    const batch = product
+      ? pending.filter((other) => other.action === 'update' && siblings.some((sibling) => sibling.id === other.productId))
+      : [row];
+    batch.forEach((other) => batched.add(other));
+    batches.push({ rows: batch, siblings });
+  }
+
+  for (const [index, batch] of batches.entries()) {
+    const [row] = batch.rows;
+    try {
+      if (row.action === 'new') {
+        const response = await api.post('/products', row.payload, { schema: productCreateResponseSchema });
+        for (const product of response.data.map(toProduct)) {
+          await saveLocalProduct(product);
+        }
+        report(batch.rows, true, 'Produk dibuat.');
+      } else if (batch.siblings.length === 0) {
+        report(batch.rows, false, 'Produk tidak ada lagi di inventaris.');
+      } else {
+        const response = await api.put('/products/variants', toVariantsPayload(batch.rows, batch.siblings), {
+          schema: productVariantsResponseSchema,
+        });
+        for (const product of response.data.map(toProduct)) {
+          await saveLocalProduct(product);
+        }
+        report(batch.rows, true, 'Produk diperbarui.');
+      }
+    } catch (error) {
+      if (isUnauthorized(error)) {
+        batches.slice(index).forEach((rest) => report(rest.rows, false, 'Tidak dikirim: sesi login berakhir.'));
+        break;
+      }
+      report(batch.rows, false, error instanceof ApiError ? error.message : 'Gagal mengirim baris ini.');
+    }
+  }
+  return results.sort((a, b) => a.row.line - b.row.line);
+};
@@ -0,0 +1,76 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import {
+  getSecureItem,
+  migrateLegacySecrets,
+  removeSecureItem,
+  SECURE_CREDENTIALS_KEY,
+  setSecureItem,
+} from './secureStorage';
+
+// "Remember Me" credentials, kept in encrypted storage.
+// With biometric unlock on, the saved password is only released after a fingerprint / face / device PIN check.
+
+export interface RememberedCredentials {
+  email: string;
+  password: string;
+  // Require device authentication before the password is used
+  biometric: boolean;
+}
+
+// Saved login as shown on the Login screen; the password is withheld while biometric unlock is on
+export interface RememberedLogin {
+  email: string;
+  password: string | null;
+  biometric: boolean;
+}
+
+const readCredentials = async (): Promise<RememberedCredentials | null> => {
+  await migrateLegacySecrets();
+  const saved = await getSecureItem(SECURE_CREDENTIALS_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved) as RememberedCredentials;
+  } catch {
+    await removeSecureItem(SECURE_CREDENTIALS_KEY);
+    return null;
+  }
+};
+
+export const getRememberedLogin = async (): Promise<RememberedLogin | null> => {
+  const credentials = await readCredentials();
+  if (!credentials) return null;
+  return {
+    email: credentials.email,
+    password: credentials.biometric ? null : credentials.password,
+    biometric: credentials.biometric,
+  };
+};
+
+export const rememberCredentials = async (credentials: RememberedCredentials) => {
+  await setSecureItem(SECURE_CREDENTIALS_KEY, JSON.stringify(credentials));
+};
+
+export const forgetCredentials = () => removeSecureItem(SECURE_CREDENTIALS_KEY);
+
+// True when the device has a fingerprint/face sensor or a screen lock PIN the app can ask for
+export const isDeviceUnlockAvailable = async (): Promise<boolean> => {
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    return level !== LocalAuthentication.SecurityLevel.NONE;
+  } catch {
+    return false;
+  }
+};
+
+// Asks for fingerprint / face / device PIN and returns the saved credentials when it succeeds
+export const unlockCredentials = async (): Promise<RememberedCredentials | null> => {
+  const credentials = await readCredentials();
+  if (!credentials) return null;
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage: 'Masuk ke Sepatu by Sovan',
+    cancelLabel: 'Batal',
+    fallbackLabel: 'Gunakan PIN',
+    disableDeviceFallback: false,
+  });
+  return result.success ? credentials : null;
+};
@@ -0,0 +1,72 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// CSV files for spreadsheets (Excel, Google Sheets): written comma separated, quoted where needed,
+// with a BOM so Excel reads the text as UTF-8.
+
+export type CsvValue = string | number | null | undefined;
+
+const escapeCell = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]) => `\uFEFF${rows.map((row) => row.map(escapeCell).join(',')).join('\r\n')}\r\n`;
+
+// Rows of a CSV file. Excel with Indonesian regional settings saves with semicolons,
+// so the delimiter is taken from whichever of , and ; the header line uses more.
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines (e.g. the trailing newline) carry no data
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
+
+// Write `content` to the cache directory and open the share sheet (WhatsApp, email, Drive, ...)
+export const shareCsv = async (fileName: string, content: string, dialogTitle: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Fitur berbagi file tidak tersedia di perangkat ini.');
+  }
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType: 'text/csv', dialogTitle, UTI: 'public.comma-separated-values-text' });
+};
+
+// File name with the current date, e.g. laporan-restock-2024-05-01.csv
+export const datedFileName = (prefix: string) => `${prefix}-${new Date().toISOString().slice(0, 10)}.csv`;
@@ -0,0 +1,58 @@
+import { parseUnitUrl } from './domain';
+import { ReturnRoute } from './session';
+
+// Incoming links opened in the app:
+//   sepatusovanapp://transaction/{invoice}
+//   sepatusovanapp://product/{id}
+//   https://{host}/inventory/{id}/unit/{code}   (the URL printed in unit QR labels, from any environment)
+
+const APP_SCHEME = 'sepatusovanapp://';
+
+let pendingRoute: ReturnRoute | null = null;
+
+const pathSegments = (path: string): string[] | null => {
+  try {
+    return path.split(/[?#]/)[0].split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+};
+
+const toProductId = (value: string | undefined) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// Screen (and params) a link should open, or null when the link is not one of ours
+export const deepLinkRoute = (url: string): ReturnRoute | null => {
+  const link = url.trim();
+
+  if (link.toLowerCase().startsWith(APP_SCHEME)) {
+    const segments = pathSegments(link.slice(APP_SCHEME.length));
+    if (!segments || segments.length !== 2) return null;
+    const [type, value] = segments;
+    if (type === 'transaction') {
+      return { name: 'TransactionIndex', params: { invoice: value } };
+    }
+    const productId = toProductId(value);
+    if (type === 'product' && productId) {
+      return { name: 'Inventory', params: { productId } };
+    }
+    return null;
+  }
+
+  const unit = parseUnitUrl(link);
+  return unit ? { name: 'Inventory', params: unit } : null;
+};
+
+// A link opened while logged out waits here until Login succeeds
+export const holdDeepLink = (route: ReturnRoute) => {
+  pendingRoute = route;
+};
+
+export const takeDeepLink = (): ReturnRoute | null => {
+  const route = pendingRoute;
+  pendingRoute = null;
+  return route;
+};
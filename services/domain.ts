@@ -0,0 +1,380 @@
+import { environment } from './environment';
+import type { ProductDto, ProductUnitDto, StockMovementDto, TransactionDto, TransactionItemDto } from './schemas';
+
+// Domain model shared by every screen: canonical types, mappers from the API DTOs
+// (services/schemas.ts) and the small business rules that used to be repeated per screen.
+
+export interface ProductUnit {
+  unit_code: string;
+  // Always a usable QR payload; falls back to the web unit URL when the backend has none
+  qr_code: string;
+  is_active: boolean;
+  created_at: string | null;
+  sold_at: string | null;
+}
+
+export interface Product {
+  id: number;
+  name: string;
+  brand: string;
+  model: string;
+  size: string;
+  color: string;
+  stock: number;
+  selling_price: number;
+  discount_price: number | null;
+  units: ProductUnit[];
+  photo_url: string | null;
+  thumbnail_url: string | null;
+}
+
+// One physical pair as offered at the cashier, with its product details flattened in
+export interface Unit {
+  product_id: number;
+  product_name: string;
+  brand: string;
+  model: string;
+  color: string;
+  size: string;
+  unit_code: string;
+  qr_code: string;
+  selling_price: number;
+  discount_price: number | null;
+  stock: number;
+  is_active: boolean;
+}
+
+export interface CartItem {
+  product_id: number;
+  name: string;
+  brand: string;
+  model: string;
+  color: string;
+  size: string;
+  unit_code: string;
+  selling_price: number;
+  discount_price: number | null;
+  quantity: number;
+}
+
+export interface TransactionItem {
+  id: number;
+  product_id: number;
+  product_name: string;
+  product_unit_id: number;
+  unit_code: string;
+  color: string | null;
+  size: string | null;
+  quantity: number;
+  price: number;
+  discount: number;
+  subtotal: number;
+}
+
+export interface Transaction {
+  id: number;
+  invoice_number: string;
+  user_id: number;
+  user_name: string;
+  // Staff member who made the sale on a shared device; null when it was the logged-in user
+  cashier_name: string | null;
+  total_amount: number;
+  tax_amount: number;
+  discount_amount: number;
+  final_amount: number;
+  payment_method: string;
+  card_type: string | null;
+  payment_status: string;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  notes: string | null;
+  created_at: string;
+  items: TransactionItem[];
+}
+
+export type StockMovementType = 'receiving' | 'sale' | 'return' | 'adjustment' | 'deactivation' | 'activation' | 'other';
+
+// One entry of a product's stock ledger: why its stock changed, by how much and who did it
+export interface StockMovement {
+  id: number;
+  type: StockMovementType;
+  // Signed change in stock
+  quantity: number;
+  // Null when the movement covers the product as a whole (e.g. a stock edit)
+  unit_code: string | null;
+  // Set for sales and returns
+  invoice_number: string | null;
+  reason: string | null;
+  user_name: string | null;
+  created_at: string;
+}
+
+// Body of POST /transactions
+export interface TransactionPayload {
+  // Idempotency key, also sent as the Idempotency-Key header
+  client_reference: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_email: string | null;
+  payment_method: string;
+  card_type: string | null;
+  notes: string | null;
+  discount_amount: number;
+  // Cashier unlocked with a PIN on a shared device (services/cashiers.ts); the roster is
+  // device-local, so only the name means anything to the backend
+  cashier_name: string | null;
+  products: {
+    unit_code: string;
+    discount_price: number | null;
+    quantity: number;
+  }[];
+}
+
+// Body of POST /products and PUT /products/{id}
+export interface ProductPayload {
+  brand: string;
+  model: string;
+  color: string | null;
+  sizes: { size: string; stock: number }[];
+  selling_price: number;
+  discount_price: number | null;
+}
+
+// Body of PUT /products/variants: every size of one brand/model/colour saved in one request.
+// Rows without an id are new sizes; the backend creates their units.
+export interface ProductVariantsPayload {
+  brand: string;
+  model: string;
+  color: string | null;
+  variants: {
+    id: number | null;
+    size: string;
+    stock: number;
+    selling_price: number;
+    discount_price: number | null;
+  }[];
+  // Recorded in the stock ledger when an existing size's stock is changed by hand
+  stock_reason: string | null;
+}
+
+// --- Rules ---
+
+// Unit codes are compared case-insensitively; the backend stores them upper case
+export const normalizeUnitCode = (code: string) => code.trim().toUpperCase();
+
+// Price the customer pays before any manual total override; a zero discount counts as none
+export const effectivePrice = (item: { selling_price: number; discount_price: number | null }) =>
+  item.discount_price !== null && item.discount_price > 0 ? item.discount_price : item.selling_price;
+
+export const formatRupiah = (amount: number) => `Rp ${new Intl.NumberFormat('id-ID').format(amount || 0)}`;
+
+export const hasDiscount = (item: { selling_price: number; discount_price: number | null }) =>
+  effectivePrice(item) !== item.selling_price;
+
+export const isUnitActive = (unit: { is_active: boolean }) => unit.is_active;
+
+export const isUnitSellable = (unit: Unit) => isUnitActive(unit) && unit.stock > 0;
+
+// Catalog text (brand, model, colour, size) as staff type it: case and surrounding spaces do not matter
+export const sameText = (a: string | null, b: string | null) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+// Whether `product` is the given brand, model, colour and size
+export const isSameSize = (
+  product: Product,
+  target: { brand: string; model: string; color: string | null; size: string }
+) =>
+  sameText(product.brand, target.brand) &&
+  sameText(product.model, target.model) &&
+  sameText(product.color, target.color) &&
+  sameText(product.size, target.size);
+
+// Every size of the same brand, model and colour as `product` (itself included), smallest size first
+export const variantsOf = (products: Product[], product: Product): Product[] =>
+  products
+    .filter(
+      (candidate) =>
+        sameText(candidate.brand, product.brand) &&
+        sameText(candidate.model, product.model) &&
+        sameText(candidate.color, product.color)
+    )
+    .sort((a, b) => a.size.localeCompare(b.size, undefined, { numeric: true }));
+
+// Sizes of a new product that already exist as the same brand, model and colour; those need a stock edit, not a new product
+export const existingSizes = (products: Product[], payload: ProductPayload): string[] =>
+  payload.sizes
+    .map((entry) => entry.size)
+    .filter((size) => products.some((product) => isSameSize(product, { ...payload, size })));
+
+// --- Unit QR codes ---
+
+// Payload printed on unit labels; the web backend serves the unit page at this URL
+export const unitQrPayload = (productId: number, unitCode: string) =>
+  `${environment.webUrl}/inventory/${productId}/unit/${unitCode}`;
+
+// {any host}/inventory/{productId}/unit/{unitCode}; the host is not checked, so labels printed
+// while testing against another backend environment still scan
+const UNIT_URL_PATTERN = /^https?:\/\/[^/?#]+(?:\/[^?#]*)?\/inventory\/(\d+)\/unit\/([^/?#]+)\/?(?:[?#].*)?$/i;
+
+// Product and unit of a unit page URL as printed on labels, or null for any other URL
+export const parseUnitUrl = (url: string): { productId: number; unitCode: string } | null => {
+  const match = url.trim().match(UNIT_URL_PATTERN);
+  if (!match || Number(match[1]) <= 0) return null;
+  try {
+    const unitCode = decodeURIComponent(match[2]).trim();
+    return unitCode ? { productId: Number(match[1]), unitCode } : null;
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+};
+
+// Unit code from a scanned label: either a unit page URL or a bare unit code
+export const parseUnitQr = (data: string): string | null => {
+  const scanned = data.trim();
+  if (!scanned) return null;
+  if (/^https?:\/\//i.test(scanned)) return parseUnitUrl(scanned)?.unitCode ?? null;
+  return scanned;
+};
+
+const isUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// --- Mappers ---
+
+export const toProductUnit = (productId: number, dto: ProductUnitDto): ProductUnit => ({
+  unit_code: dto.unit_code,
+  qr_code: dto.qr_code && isUrl(dto.qr_code) ? dto.qr_code : unitQrPayload(productId, dto.unit_code),
+  is_active: dto.is_active === 1,
+  created_at: dto.created_at,
+  sold_at: dto.sold_at,
+});
+
+export const toProduct = (dto: ProductDto): Product => ({
+  id: dto.id,
+  name: dto.name,
+  brand: dto.brand,
+  model: dto.model,
+  size: dto.size,
+  color: dto.color,
+  stock: dto.stock,
+  selling_price: dto.selling_price,
+  discount_price: dto.discount_price,
+  units: dto.units.map((unit) => toProductUnit(dto.id, unit)),
+  photo_url: dto.photo_url,
+  thumbnail_url: dto.thumbnail_url,
+});
+
+export const toUnits = (product: Product): Unit[] =>
+  product.units.map((unit) => ({
+    product_id: product.id,
+    product_name: product.name,
+    brand: product.brand || 'Unknown',
+    model: product.model || '-',
+    color: product.color || '-',
+    size: product.size || '-',
+    unit_code: unit.unit_code,
+    qr_code: unit.qr_code,
+    selling_price: product.selling_price,
+    discount_price: product.discount_price,
+    stock: product.stock,
+    is_active: unit.is_active,
+  }));
+
+export const toCartItem = (unit: Unit): CartItem => ({
+  product_id: unit.product_id,
+  name: unit.product_name,
+  brand: unit.brand,
+  model: unit.model,
+  color: unit.color,
+  size: unit.size,
+  unit_code: unit.unit_code,
+  selling_price: unit.selling_price,
+  discount_price: unit.discount_price,
+  quantity: 1,
+});
+
+export const toTransactionItem = (dto: TransactionItemDto): TransactionItem => ({
+  id: dto.id,
+  product_id: dto.product_id,
+  product_name: dto.product_name,
+  product_unit_id: dto.product_unit_id,
+  unit_code: dto.unit_code,
+  color: dto.color,
+  size: dto.size,
+  quantity: dto.quantity,
+  price: dto.price,
+  discount: dto.discount,
+  subtotal: dto.subtotal,
+});
+
+export const toTransaction = (dto: TransactionDto): Transaction => ({
+  id: dto.id,
+  invoice_number: dto.invoice_number,
+  user_id: dto.user_id,
+  user_name: dto.user_name,
+  cashier_name: dto.cashier_name,
+  total_amount: dto.total_amount,
+  tax_amount: dto.tax_amount,
+  discount_amount: dto.discount_amount,
+  final_amount: dto.final_amount,
+  payment_method: dto.payment_method,
+  card_type: dto.card_type,
+  payment_status: dto.payment_status,
+  customer_name: dto.customer_name,
+  customer_phone: dto.customer_phone,
+  customer_email: dto.customer_email,
+  notes: dto.notes,
+  created_at: dto.created_at,
+  items: dto.items.map(toTransactionItem),
+});
+
+const STOCK_MOVEMENT_TYPES: StockMovementType[] = ['receiving', 'sale', 'return', 'adjustment', 'deactivation', 'activation'];
+
+export const toStockMovement = (dto: StockMovementDto): StockMovement => ({
+  id: dto.id,
+  type: STOCK_MOVEMENT_TYPES.find((type) => type === dto.type.trim().toLowerCase()) ?? 'other',
+  quantity: dto.quantity,
+  unit_code: dto.unit_code,
+  invoice_number: dto.invoice_number,
+  reason: dto.reason,
+  user_name: dto.user_name,
+  created_at: dto.created_at,
+});
+
+// Name printed as the seller: the PIN-unlocked cashier when there was one
+export const sellerName = (transaction: Transaction) => transaction.cashier_name || transaction.user_name;
+
+export interface SaleDetails {
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string;
+  paymentMethod: string;
+  cardType: string;
+  notes: string;
+  discountAmount: number;
+  cashier: { name: string } | null;
+}
+
+export const toTransactionPayload = (clientReference: string, cart: CartItem[], sale: SaleDetails): TransactionPayload => ({
+  client_reference: clientReference,
+  customer_name: sale.customerName || null,
+  customer_phone: sale.customerPhone || null,
+  customer_email: sale.customerEmail || null,
+  payment_method: sale.paymentMethod,
+  card_type: sale.paymentMethod === 'debit' ? sale.cardType : null,
+  notes: sale.notes || null,
+  discount_amount: sale.discountAmount,
+  cashier_name: sale.cashier?.name ?? null,
+  products: cart.map((item) => ({
+    unit_code: normalizeUnitCode(item.unit_code),
+    discount_price: item.discount_price,
+    quantity: item.quantity,
+  })),
+});
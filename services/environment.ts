@@ -0,0 +1,41 @@
+// Backend environments the app can talk to.
+// Pick one with EXPO_PUBLIC_API_ENV (testing | production | local) and,
+// when needed, override the host with EXPO_PUBLIC_API_URL (e.g. a laptop on the shop wifi).
+
+export type EnvironmentName = 'testing' | 'production' | 'local';
+
+export interface Environment {
+  name: EnvironmentName;
+  // Base URL for REST calls, without trailing slash (".../api")
+  apiUrl: string;
+  // Base URL of the web backend, used for unit QR links
+  webUrl: string;
+}
+
+const HOSTS: Record<EnvironmentName, string> = {
+  testing: 'https://testingaplikasi.tokosepatusovan.com',
+  production: 'https://aplikasi.tokosepatusovan.com',
+  local: 'http://localhost:8000',
+};
+
+const DEFAULT_ENVIRONMENT: EnvironmentName = 'testing';
+
+const isEnvironmentName = (value: string | undefined): value is EnvironmentName =>
+  value === 'testing' || value === 'production' || value === 'local';
+
+const resolveEnvironment = (): Environment => {
+  const requested = process.env.EXPO_PUBLIC_API_ENV;
+  const name = isEnvironmentName(requested) ? requested : DEFAULT_ENVIRONMENT;
+  if (requested && !isEnvironmentName(requested)) {
+    console.warn(`EXPO_PUBLIC_API_ENV "${requested}" tidak dikenal, memakai "${DEFAULT_ENVIRONMENT}".`);
+  }
+
+  const host = (process.env.EXPO_PUBLIC_API_URL || HOSTS[name]).replace(/\/+$/, '');
+  return {
+    name,
+    apiUrl: `${host}/api`,
+    webUrl: host,
+  };
+};
+
+export const environment: Environment = resolveEnvironment();
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { effectivePrice, hasDiscount, normalizeUnitCode, Product, sameText } from './domain';
+import { stockLevel, StockThresholds } from './stockThresholds';
+
+// Inventory filters beyond the brand/model/size search, sort orders, and named presets.
+// Presets are saved next to the Inventory screen state (inventory_state) in AsyncStorage.
+
+const PRESETS_KEY = 'inventory_filter_presets';
+
+export type StockFilter = 'all' | 'low' | 'out';
+
+export type InventorySort = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'stock_asc' | 'stock_desc' | 'brand';
+
+export interface InventoryFilters {
+  color: string;
+  // Rupiah, compared with the price the customer pays; null for no bound
+  minPrice: number | null;
+  maxPrice: number | null;
+  discountOnly: boolean;
+  stock: StockFilter;
+  unitCode: string;
+}
+
+export const DEFAULT_FILTERS: InventoryFilters = {
+  color: '',
+  minPrice: null,
+  maxPrice: null,
+  discountOnly: false,
+  stock: 'all',
+  unitCode: '',
+};
+
+export const SORT_OPTIONS: { value: InventorySort; label: string }[] = [
+  { value: 'newest', label: 'Terbaru' },
+  { value: 'oldest', label: 'Terlama' },
+  { value: 'price_asc', label: 'Harga Terendah' },
+  { value: 'price_desc', label: 'Harga Tertinggi' },
+  { value: 'stock_asc', label: 'Stok Tersedikit' },
+  { value: 'stock_desc', label: 'Stok Terbanyak' },
+  { value: 'brand', label: 'Brand A–Z' },
+];
+
+export interface InventoryPreset {
+  name: string;
+  searchTerm: string;
+  sizeTerm: string;
+  selectedBrand: string;
+  filters: InventoryFilters;
+  sort: InventorySort;
+}
+
+// Number of filters that differ from the defaults, for the "Filter (n)" button
+export const activeFilterCount = (filters: InventoryFilters) =>
+  (Object.keys(DEFAULT_FILTERS) as (keyof InventoryFilters)[]).filter((key) => filters[key] !== DEFAULT_FILTERS[key]).length;
+
+export const applyInventoryFilters = (products: Product[], filters: InventoryFilters, thresholds: StockThresholds) => {
+  const color = filters.color.trim().toLowerCase();
+  const unitCode = normalizeUnitCode(filters.unitCode);
+  return products.filter((product) => {
+    const price = effectivePrice(product);
+    if (color && !(product.color || '').toLowerCase().includes(color)) return false;
+    if (filters.minPrice !== null && price < filters.minPrice) return false;
+    if (filters.maxPrice !== null && price > filters.maxPrice) return false;
+    if (filters.discountOnly && !hasDiscount(product)) return false;
+    if (filters.stock !== 'all' && stockLevel(thresholds, product) !== filters.stock) return false;
+    if (unitCode && !product.units.some((unit) => normalizeUnitCode(unit.unit_code).includes(unitCode))) return false;
+    return true;
+  });
+};
+
+// Product ids grow with creation time, so they stand in for the product's age
+export const sortInventory = (products: Product[], sort: InventorySort): Product[] => {
+  const sorted = [...products];
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => a.id - b.id);
+    case 'price_asc':
+      return sorted.sort((a, b) => effectivePrice(a) - effectivePrice(b));
+    case 'price_desc':
+      return sorted.sort((a, b) => effectivePrice(b) - effectivePrice(a));
+    case 'stock_asc':
+      return sorted.sort((a, b) => a.stock - b.stock);
+    case 'stock_desc':
+      return sorted.sort((a, b) => b.stock - a.stock);
+    case 'brand':
+      return sorted.sort(
+        (a, b) =>
+          (a.brand || '').localeCompare(b.brand || '') ||
+          (a.model || '').localeCompare(b.model || '') ||
+          a.size.localeCompare(b.size, undefined, { numeric: true })
+      );
+    default:
+      return sorted.sort((a, b) => b.id - a.id);
+  }
+};
+
+export const getInventoryPresets = async (): Promise<InventoryPreset[]> => {
+  try {
+    const saved = await AsyncStorage.getItem(PRESETS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Gagal memuat preset filter:', error);
+    return [];
+  }
+};
+
+const saveInventoryPresets = async (presets: InventoryPreset[]) => {
+  try {
+    await AsyncStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Gagal menyimpan preset filter:', error);
+  }
+  return presets;
+};
+
+// Saving under an existing name (ignoring case) replaces that preset
+export const saveInventoryPreset = async (preset: InventoryPreset) => {
+  const presets = await getInventoryPresets();
+  const name = preset.name.trim();
+  return saveInventoryPresets([...presets.filter((item) => !sameText(item.name, name)), { ...preset, name }]);
+};
+
+export const deleteInventoryPreset = async (name: string) =>
+  saveInventoryPresets((await getInventoryPresets()).filter((item) => !sameText(item.name, name)));
@@ -0,0 +1,104 @@
+import * as Print from 'expo-print';
+import { effectivePrice, formatRupiah, isUnitActive, normalizeUnitCode, Product } from './domain';
+import { qrSvg } from './qr';
+
+// Printable unit labels: one label per physical pair with its QR code, unit code, size and price.
+// Two layouts: an A4 sticker sheet for office printers and one label per page for 58 mm thermal printers.
+
+export type LabelLayout = 'a4' | 'thermal';
+
+export const LABEL_LAYOUTS: { value: LabelLayout; label: string }[] = [
+  { value: 'a4', label: 'Stiker A4 (3 × 8)' },
+  { value: 'thermal', label: 'Thermal 58 mm' },
+];
+
+export interface UnitLabel {
+  unitCode: string;
+  qrCode: string;
+  brand: string;
+  model: string;
+  color: string;
+  size: string;
+  price: number;
+}
+
+// Labels for the unsold, active units of `products`; `unitCodes` narrows it to specific units,
+// which are labelled even when inactive
+export const toUnitLabels = (products: Product[], unitCodes?: string[]): UnitLabel[] => {
+  const wanted = unitCodes ? new Set(unitCodes.map(normalizeUnitCode)) : null;
+  return products.flatMap((product) =>
+    product.units
+      .filter((unit) =>
+        !unit.sold_at && (wanted ? wanted.has(normalizeUnitCode(unit.unit_code)) : isUnitActive(unit))
+      )
+      .map((unit) => ({
+        unitCode: unit.unit_code,
+        qrCode: unit.qr_code,
+        brand: product.brand,
+        model: product.model,
+        color: product.color,
+        size: product.size,
+        price: effectivePrice(product),
+      }))
+  );
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const LAYOUT_STYLES: Record<LabelLayout, string> = {
+  // 3 columns × 8 rows of 70 × 37 mm stickers
+  a4: `
+    @page { size: A4; margin: 0; }
+    body { width: 210mm; }
+    .sheet { display: flex; flex-wrap: wrap; padding: 0; }
+    .label { width: 70mm; height: 37.125mm; padding: 2mm 3mm; display: flex; align-items: center; gap: 2mm; }
+    .label svg { width: 30mm; height: 30mm; flex-shrink: 0; }
+    .text { text-align: left; overflow: hidden; }
+  `,
+  // One 58 × 40 mm label per page
+  thermal: `
+    @page { size: 58mm 40mm; margin: 0; }
+    body { width: 58mm; }
+    .label { width: 58mm; height: 40mm; padding: 1.5mm; display: flex; align-items: center; gap: 1.5mm; page-break-after: always; }
+    .label svg { width: 26mm; height: 26mm; flex-shrink: 0; }
+    .text { text-align: left; overflow: hidden; }
+  `,
+};
+
+const labelHtml = (label: UnitLabel) => `
+  <div class="label">
+    ${qrSvg(label.qrCode, 150)}
+    <div class="text">
+      <div class="brand">${escapeHtml(label.brand)}</div>
+      <div class="model">${escapeHtml(label.model)}</div>
+      <div class="meta">${escapeHtml([label.size && `Ukuran ${label.size}`, label.color].filter(Boolean).join(' · '))}</div>
+      <div class="price">${formatRupiah(label.price)}</div>
+      <div class="code">${escapeHtml(label.unitCode)}</div>
+    </div>
+  </div>`;
+
+export const unitLabelsHtml = (labels: UnitLabel[], layout: LabelLayout = 'a4') => `
+  <html>
+    <head>
+      <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+      <style>
+        * { box-sizing: border-box; }
+        body { margin: 0; font-family: Arial, sans-serif; color: #000; }
+        .label { page-break-inside: avoid; }
+        .brand { font-weight: bold; font-size: 11px; text-transform: uppercase; }
+        .model { font-size: 10px; text-transform: uppercase; }
+        .meta { font-size: 9px; }
+        .price { font-weight: bold; font-size: 11px; margin-top: 1mm; }
+        .code { font-family: 'Courier New', Courier, monospace; font-size: 10px; font-weight: bold; margin-top: 1mm; }
+        ${LAYOUT_STYLES[layout]}
+      </style>
+    </head>
+    <body>
+      <div class="sheet">${labels.map(labelHtml).join('')}</div>
+    </body>
+  </html>
+`;
+
+export const printLabels = (labels: UnitLabel[], layout: LabelLayout = 'a4') =>
+  Print.printAsync({ html: unitLabelsHtml(labels, layout) });
@@ -0,0 +1,50 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from './api';
+import { lockCashier } from './cashiers';
+import { clearProductThumbnails } from './productPhotos';
+import { clearLocalProducts } from './productSync';
+import { discardReceiving, getReceiving } from './receiving';
+import { endSession, getToken } from './session';
+import { discardStockTake, getStockTake } from './stockTake';
+import { clearQueue, getQueue } from './transactionQueue';
+
+// Logout: revoke the token on the server, then remove everything this user left on the device.
+
+// Screen state kept outside the services (Inventory filters, TransactionCreate's unfinished cart).
+// Stock-take and receiving sessions are discarded through their own services.
+const SCREEN_STATE_KEYS = ['inventory_state', 'transaction_draft'];
+
+// Work on this device that is lost if the user logs out now
+export interface UnfinishedWork {
+  // Sales still waiting in the offline queue
+  unsyncedSales: number;
+  stockTake: boolean;
+  receiving: boolean;
+}
+
+export const getUnfinishedWork = async (): Promise<UnfinishedWork> => {
+  const [queue, stockTake, receiving] = await Promise.all([getQueue(), getStockTake(), getReceiving()]);
+  return { unsyncedSales: queue.length, stockTake: stockTake !== null, receiving: receiving !== null };
+};
+
+const revokeToken = async () => {
+  if (!(await getToken())) return;
+  try {
+    await api.post('/logout', undefined, { refreshOnUnauthorized: false });
+  } catch (error) {
+    // Offline or already expired: the local cleanup below still logs the user out
+    console.warn('Gagal mencabut token di server:', error);
+  }
+};
+
+export const logout = async () => {
+  await revokeToken();
+  await clearQueue();
+  await lockCashier();
+  await clearLocalProducts();
+  await clearProductThumbnails();
+  await discardStockTake();
+  await discardReceiving();
+  await AsyncStorage.multiRemove(SCREEN_STATE_KEYS);
+  await endSession();
+};
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { CashierRole, useCashiers } from './cashiers';
+import { getSessionUser, SessionUser, subscribeSessionUser } from './session';
+
+// Role-based access: what each role may see and do.
+// Screens are guarded in the navigator (components/withPermission.tsx) and actions inside
+// each screen check `can` again, so hiding a menu entry is never the only protection.
+// On a shared device with a cashier roster the account's role is narrowed to the unlocked
+// cashier's role, and to a plain cashier while nobody is unlocked. Unlocking the store account
+// itself (device authentication) gives the account its own role back, e.g. an owner deleting products.
+
+export type Role = 'owner' | 'admin' | 'cashier';
+
+export type Permission =
+  | 'inventory.view'
+  | 'inventory.edit'
+  | 'inventory.delete'
+  | 'transaction.view'
+  | 'transaction.create'
+  | 'transaction.discount'
+  | 'report.view'
+  | 'monitoring.view'
+  | 'cashier.manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    'inventory.view',
+    'inventory.edit',
+    'inventory.delete',
+    'transaction.view',
+    'transaction.create',
+    'transaction.discount',
+    'report.view',
+    'monitoring.view',
+    'cashier.manage',
+  ],
+  admin: [
+    'inventory.view',
+    'inventory.edit',
+    'transaction.view',
+    'transaction.create',
+    'transaction.discount',
+    'report.view',
+    'monitoring.view',
+    'cashier.manage',
+  ],
+  cashier: ['inventory.view', 'transaction.view', 'transaction.create'],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Pemilik',
+  admin: 'Admin',
+  cashier: 'Kasir',
+};
+
+// The backend uses Indonesian and English role names; anything unknown gets the smallest role
+export const toRole = (role: string | null | undefined): Role => {
+  switch ((role || '').trim().toLowerCase()) {
+    case 'owner':
+    case 'pemilik':
+    case 'superadmin':
+      return 'owner';
+    case 'admin':
+    case 'administrator':
+      return 'admin';
+    default:
+      return 'cashier';
+  }
+};
+
+export const can = (user: SessionUser | null, permission: Permission): boolean =>
+  user !== null && ROLE_PERMISSIONS[toRole(user.role)].includes(permission);
+
+const ROLE_RANK: Record<Role, number> = { cashier: 0, admin: 1, owner: 2 };
+
+// Role the app works with: never more than the account's role, nor than the cashier at the counter.
+// `cashier` is undefined on a device without a roster, null when the roster has nobody unlocked.
+export const effectiveRole = (account: Role, cashier: CashierRole | null | undefined): Role => {
+  if (cashier === undefined) return account;
+  const limit = cashier ?? 'cashier';
+  return ROLE_RANK[limit] < ROLE_RANK[account] ? limit : account;
+};
+
+export interface Permissions {
+  // False until the stored user has been read
+  ready: boolean;
+  user: SessionUser | null;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
+}
+
+// Current user's permissions; updates when another user signs in or another cashier unlocks on this device
+export const usePermissions = (): Permissions => {
+  const [user, setUser] = useState<SessionUser | null | undefined>(undefined);
+  const { ready: cashiersReady, cashiers, active, storeAccount } = useCashiers();
+
+  useEffect(() => {
+    let active = true;
+    getSessionUser().then((current) => {
+      if (active) setUser(current);
+    });
+    const unsubscribe = subscribeSessionUser((current) => setUser(current));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const current = user ?? null;
+  // A roster from before cashier roles has no admin; the account keeps its role until one is added
+  const rosterManaged = cashiers.some((cashier) => cashier.role === 'admin');
+  const cashierRole = storeAccount ? undefined : active ? active.role : rosterManaged ? null : undefined;
+  const role = current ? effectiveRole(toRole(current.role), cashierRole) : null;
+  return {
+    ready: user !== undefined && cashiersReady,
+    user: current,
+    role,
+    can: (permission) => role !== null && ROLE_PERMISSIONS[role].includes(permission),
+  };
+};
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { api } from './api';
+import { Product, toProduct } from './domain';
+import { saveLocalProduct } from './productSync';
+import { productResponseSchema } from './schemas';
+
+// Product photos: uploaded from the camera or the media library, and a thumbnail of each
+// downloaded to the device so Inventory and the cashier still show them offline.
+
+const THUMBNAILS_KEY = 'product_thumbnails';
+const THUMBNAIL_DIR = `${FileSystem.documentDirectory}product-thumbnails/`;
+const UPLOAD_TIMEOUT = 60000;
+
+interface CachedThumbnail {
+  // Remote image the file was downloaded from; a different URL means the photo changed
+  url: string;
+  uri: string;
+}
+
+type ThumbnailIndex = Record<number, CachedThumbnail>;
+type ChangeListener = (index: ThumbnailIndex) => void;
+
+const listeners = new Set<ChangeListener>();
+let index: ThumbnailIndex | null = null;
+let cacheInFlight: Promise<void> | null = null;
+
+const getThumbnailIndex = async (): Promise<ThumbnailIndex> => {
+  if (index) return index;
+  try {
+    const saved = await AsyncStorage.getItem(THUMBNAILS_KEY);
+    index = saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Gagal memuat indeks foto produk:', error);
+    index = {};
+  }
+  return index as ThumbnailIndex;
+};
+
+const saveThumbnailIndex = async (next: ThumbnailIndex) => {
+  index = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(THUMBNAILS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Gagal menyimpan indeks foto produk:', error);
+  }
+};
+
+export const subscribeProductThumbnails = (listener: ChangeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const remoteThumbnail = (product: Product) => product.thumbnail_url ?? product.photo_url;
+
+const removeFile = (uri: string) => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+
+// A new file name per download, so image views do not keep showing the old photo
+const downloadThumbnail = async (productId: number, url: string) => {
+  await FileSystem.makeDirectoryAsync(THUMBNAIL_DIR, { intermediates: true }).catch(() => undefined);
+  const download = await FileSystem.downloadAsync(url, `${THUMBNAIL_DIR}${productId}-${Date.now()}.jpg`);
+  if (download.status !== 200) {
+    await removeFile(download.uri);
+    throw new Error(`HTTP ${download.status}`);
+  }
+  return download.uri;
+};
+
+// Download the thumbnail of every product whose photo is new or changed and drop the files of
+// products that lost their photo or were deleted. A failed download keeps the older file.
+const runCache = async (products: Product[]) => {
+  const current = await getThumbnailIndex();
+  const next: ThumbnailIndex = {};
+
+  for (const product of products) {
+    const url = remoteThumbnail(product);
+    const cached = current[product.id];
+    if (!url) {
+      if (cached) await removeFile(cached.uri);
+      continue;
+    }
+    if (cached && cached.url === url && (await FileSystem.getInfoAsync(cached.uri)).exists) {
+      next[product.id] = cached;
+      continue;
+    }
+    try {
+      const uri = await downloadThumbnail(product.id, url);
+      if (cached) await removeFile(cached.uri);
+      next[product.id] = { url, uri };
+    } catch (error) {
+      console.error(`Gagal mengunduh foto produk ${product.id}:`, error);
+      if (cached) next[product.id] = cached;
+    }
+  }
+
+  const kept = new Set(products.map((product) => product.id));
+  for (const [id, cached] of Object.entries(current)) {
+    if (!kept.has(Number(id))) await removeFile(cached.uri);
+  }
+  await saveThumbnailIndex(next);
+};
+
+// Bring the thumbnail files in line with the whole local catalog. Concurrent callers share one run.
+export const cacheProductThumbnails = (products: Product[]): Promise<void> => {
+  if (!cacheInFlight) {
+    cacheInFlight = runCache(products).finally(() => {
+      cacheInFlight = null;
+    });
+  }
+  return cacheInFlight;
+};
+
+// Upload `uri` (a camera capture or library image) as the product's photo and cache its thumbnail
+export const uploadProductPhoto = async (productId: number, uri: string): Promise<Product> => {
+  const form = new FormData();
+  form.append('photo', { uri, name: `produk-${productId}.jpg`, type: 'image/jpeg' });
+  const response = await api.post(`/products/${productId}/photo`, form, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: UPLOAD_TIMEOUT,
+    schema: productResponseSchema,
+  });
+  const product = toProduct(response.data);
+  await saveLocalProduct(product);
+
+  const url = remoteThumbnail(product);
+  const current = await getThumbnailIndex();
+  if (url && current[product.id]?.url !== url) {
+    try {
+      const uri = await downloadThumbnail(product.id, url);
+      if (current[product.id]) await removeFile(current[product.id].uri);
+      await saveThumbnailIndex({ ...current, [product.id]: { url, uri } });
+    } catch (error) {
+      // The next full cache run picks it up
+      console.error(`Gagal mengunduh foto produk ${product.id}:`, error);
+    }
+  }
+  return product;
+};
+
+// Local thumbnail file per product id, for products whose photo has been downloaded
+export const useProductThumbnails = (): Record<number, string> => {
+  const [state, setState] = useState<ThumbnailIndex>(index ?? {});
+
+  useEffect(() => {
+    let mounted = true;
+    getThumbnailIndex().then((current) => {
+      if (mounted) setState(current);
+    });
+    const unsubscribe = subscribeProductThumbnails(setState);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return useMemo(() => Object.fromEntries(Object.entries(state).map(([id, cached]) => [id, cached.uri])), [state]);
+};
+
+export const clearProductThumbnails = async () => {
+  await FileSystem.deleteAsync(THUMBNAIL_DIR, { idempotent: true }).catch(() => undefined);
+  await AsyncStorage.removeItem(THUMBNAILS_KEY);
+  index = null;
+  listeners.forEach((listener) => listener({}));
+};
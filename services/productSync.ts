@@ -0,0 +1,130 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from './api';
+import { Product, toProduct } from './domain';
+import { productCacheSchema, productChangesResponseSchema } from './schemas';
+
+// Local copy of the product catalog, kept current with a delta sync.
+// The first sync downloads everything; after that only products changed or deleted
+// since the last server timestamp are fetched and merged in.
+
+const PRODUCTS_KEY = 'inventory_products';
+const SYNCED_AT_KEY = 'inventory_synced_at';
+// Written by app versions that re-downloaded the whole catalog every 5 minutes
+const LEGACY_TIMESTAMP_KEY = 'inventory_cache_timestamp';
+const PER_PAGE = 100;
+
+let products: Product[] | null = null;
+let syncInFlight: { full: boolean; promise: Promise<Product[]> } | null = null;
+let fullSyncQueued: Promise<Product[]> | null = null;
+// Bumped when the local copy is cleared (logout), so a sync still in flight does not write it back
+let generation = 0;
+
+// Newest first, matching the old order_by=created_at&sort=desc listing
+const sortProducts = (list: Product[]) => [...list].sort((a, b) => b.id - a.id);
+
+export const getLocalProducts = async (): Promise<Product[] | null> => {
+  if (products) return products;
+  try {
+    const saved = await AsyncStorage.getItem(PRODUCTS_KEY);
+    if (!saved) return null;
+    // Decoded like an API response, so copies saved by older app versions (string prices) still load
+    const decoded = productCacheSchema.safeParse(JSON.parse(saved));
+    products = decoded.success ? decoded.data.map(toProduct) : null;
+  } catch (error) {
+    console.error('Gagal memuat produk dari AsyncStorage:', error);
+  }
+  return products;
+};
+
+const saveLocalProducts = async (next: Product[], syncedAt?: string) => {
+  products = next;
+  try {
+    await AsyncStorage.setItem(PRODUCTS_KEY, JSON.stringify(next));
+    if (syncedAt) {
+      await AsyncStorage.setItem(SYNCED_AT_KEY, syncedAt);
+    }
+  } catch (error) {
+    console.error('Gagal menyimpan produk ke AsyncStorage:', error);
+  }
+};
+
+const mergeChanges = (current: Product[], changed: Product[], deletedIds: number[]) => {
+  const byId = new Map(current.map((product) => [product.id, product]));
+  changed.forEach((product) => byId.set(product.id, product));
+  deletedIds.forEach((id) => byId.delete(id));
+  return sortProducts(Array.from(byId.values()));
+};
+
+const runSync = async (full: boolean): Promise<Product[]> => {
+  const startedIn = generation;
+  const local = full ? null : await getLocalProducts();
+  const since = local ? await AsyncStorage.getItem(SYNCED_AT_KEY) : null;
+
+  let changed: Product[] = [];
+  let deletedIds: number[] = [];
+  let syncedAt: string | null = null;
+  let page = 1;
+  let lastPage = 1;
+
+  do {
+    const response = await api.get('/products/sync', {
+      params: { since, page, per_page: PER_PAGE },
+      schema: productChangesResponseSchema,
+    });
+    changed = [...changed, ...response.data.products.map(toProduct)];
+    deletedIds = [...deletedIds, ...response.data.deleted_ids];
+    // The first page's clock is the safe point: anything changed while paging is picked up next time
+    syncedAt = syncedAt ?? response.data.synced_at;
+    lastPage = response.data.pagination?.last_page || 1;
+    page++;
+  } while (page <= lastPage);
+
+  // The session changed while paging; the result belongs to the previous user
+  if (generation !== startedIn) return (await getLocalProducts()) ?? [];
+
+  const next = since && local ? mergeChanges(local, changed, deletedIds) : sortProducts(changed);
+  await saveLocalProducts(next, syncedAt ?? undefined);
+  await AsyncStorage.removeItem(LEGACY_TIMESTAMP_KEY);
+  return next;
+};
+
+// Brings the local copy up to date and returns it. Concurrent callers share one sync.
+// `full` discards the local copy and downloads the whole catalog again; asked for while an
+// incremental sync is running, it starts once that one has finished.
+export const syncProducts = (options: { full?: boolean } = {}): Promise<Product[]> => {
+  const full = options.full ?? false;
+  if (!syncInFlight) {
+    const promise = runSync(full).finally(() => {
+      syncInFlight = null;
+    });
+    syncInFlight = { full, promise };
+    return promise;
+  }
+  if (!full || syncInFlight.full) return syncInFlight.promise;
+  if (!fullSyncQueued) {
+    fullSyncQueued = syncInFlight.promise
+      .catch(() => undefined)
+      .then(() => {
+        fullSyncQueued = null;
+        return syncProducts({ full: true });
+      });
+  }
+  return fullSyncQueued;
+};
+
+// Apply a product returned by a create/update call without waiting for the next sync
+export const saveLocalProduct = async (product: Product) => {
+  const current = (await getLocalProducts()) ?? [];
+  await saveLocalProducts(mergeChanges(current, [product], []));
+};
+
+export const removeLocalProduct = async (id: number) => {
+  const current = (await getLocalProducts()) ?? [];
+  await saveLocalProducts(mergeChanges(current, [], [id]));
+};
+
+export const clearLocalProducts = async () => {
+  generation++;
+  products = null;
+  await AsyncStorage.multiRemove([PRODUCTS_KEY, SYNCED_AT_KEY, LEGACY_TIMESTAMP_KEY]);
+};
@@ -0,0 +1,52 @@
+import { create } from 'qrcode';
+
+// QR codes drawn on the device: labels render offline and unit URLs never leave the app.
+// The payload is whatever the caller passes, normally the unit URL from unitQrPayload,
+// which parseUnitQr reads back when a label is scanned.
+
+// Light modules kept around the code so scanners can find its edges
+export const QR_QUIET_ZONE = 4;
+
+export interface QrRun {
+  start: number;
+  length: number;
+}
+
+export interface QrMatrix {
+  // Modules per side, without the quiet zone
+  size: number;
+  // Dark modules of each row, merged into horizontal runs
+  rows: QrRun[][];
+}
+
+export const qrMatrix = (data: string): QrMatrix => {
+  const { modules } = create(data, { errorCorrectionLevel: 'M' });
+  const rows: QrRun[][] = [];
+  for (let row = 0; row < modules.size; row++) {
+    const runs: QrRun[] = [];
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+      runs.push({ start, length: col - start });
+    }
+    rows.push(runs);
+  }
+  return { size: modules.size, rows };
+};
+
+// Standalone SVG for printed labels (expo-print renders HTML)
+export const qrSvg = (data: string, pixels: number) => {
+  const { size, rows } = qrMatrix(data);
+  const total = size + QR_QUIET_ZONE * 2;
+  const path = rows
+    .flatMap((runs, row) =>
+      runs.map((run) => `M${run.start + QR_QUIET_ZONE} ${row + QR_QUIET_ZONE}h${run.length}v1h-${run.length}z`)
+    )
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges"><rect width="${total}" height="${total}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
@@ -0,0 +1,326 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { api } from './api';
+import { formatRupiah, isSameSize, normalizeUnitCode, parseUnitQr, Product, ProductPayload, toProduct } from './domain';
+import { saveLocalProduct } from './productSync';
+import { productCreateResponseSchema, productResponseSchema, ReceivingDto, receivingResponseSchema } from './schemas';
+import { getSessionUser } from './session';
+
+// Goods receiving (penerimaan barang): a supplier shipment is entered size by size. New pairs get
+// units (and labels) right away; pairs that already carry a label are scanned to confirm them.
+// Closing the session records one receiving document with supplier, cost and date.
+// Progress is saved after every step, so a half-unpacked shipment survives app restarts; it belongs
+// to the user who started it and is dropped when someone else is signed in.
+
+const RECEIVING_KEY = 'receiving_session';
+
+export interface ReceivingLine {
+  productId: number;
+  name: string;
+  brand: string;
+  model: string;
+  color: string;
+  size: string;
+  // Purchase price per pair, in rupiah
+  unitCost: number;
+  // Units created for this shipment; they still need labels
+  generated: string[];
+  // Units that already existed and were scanned as part of this shipment
+  confirmed: string[];
+}
+
+export interface PendingRequest {
+  key: string;
+  // Units the product had before the first attempt; the new ones are those not in this list
+  knownUnits: string[];
+}
+
+export interface ReceivingSession {
+  supplier: string;
+  // Supplier's delivery note or invoice number
+  reference: string;
+  // YYYY-MM-DD
+  receivedAt: string;
+  startedAt: string;
+  startedBy: string;
+  // Session user who started the receiving
+  userId: number | null;
+  lines: ReceivingLine[];
+  // Create requests that have not succeeded yet, by what they create. A retry after a timeout
+  // sends the same idempotency key, so the backend never creates the units twice.
+  pendingRequests: Record<string, PendingRequest>;
+}
+
+// One model (brand, model, colour) as typed or picked by staff, with the pairs received per size
+export interface ReceiveInput {
+  brand: string;
+  model: string;
+  color: string;
+  // Used when a size is new to the catalog
+  sellingPrice: number;
+  discountPrice: number | null;
+  unitCost: number;
+  sizes: { size: string; quantity: number }[];
+}
+
+export type ConfirmResult =
+  | { kind: 'confirmed'; line: ReceivingLine; unitCode: string }
+  | { kind: 'duplicate'; unitCode: string }
+  | { kind: 'sold' | 'inactive' | 'unknown'; unitCode: string }
+  | { kind: 'invalid' };
+
+let session: ReceivingSession | null | undefined;
+
+const saveReceiving = async (next: ReceivingSession | null) => {
+  session = next;
+  try {
+    if (next) {
+      await AsyncStorage.setItem(RECEIVING_KEY, JSON.stringify(next));
+    } else {
+      await AsyncStorage.removeItem(RECEIVING_KEY);
+    }
+  } catch (error) {
+    console.error('Gagal menyimpan sesi penerimaan barang:', error);
+  }
+};
+
+export const getReceiving = async (): Promise<ReceivingSession | null> => {
+  if (session === undefined) {
+    try {
+      const saved = await AsyncStorage.getItem(RECEIVING_KEY);
+      session = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('Gagal memuat sesi penerimaan barang:', error);
+      session = null;
+    }
+  }
+  if (session && session.userId !== ((await getSessionUser())?.id ?? null)) {
+    await saveReceiving(null);
+  }
+  return session ?? null;
+};
+
+export const startReceiving = async (options: {
+  supplier: string;
+  reference: string;
+  receivedAt: string;
+  startedBy: string;
+}): Promise<ReceivingSession> => {
+  const next: ReceivingSession = {
+    supplier: options.supplier.trim(),
+    reference: options.reference.trim(),
+    receivedAt: options.receivedAt,
+    startedAt: new Date().toISOString(),
+    startedBy: options.startedBy,
+    userId: (await getSessionUser())?.id ?? null,
+    lines: [],
+    pendingRequests: {},
+  };
+  await saveReceiving(next);
+  return next;
+};
+
+// Units created earlier in this session are not cancelled; they stay in the catalog
+export const discardReceiving = () => saveReceiving(null);
+
+// Saved before a create request is sent; the same request after a failure reuses it
+const reserveRequest = async (current: ReceivingSession, request: string, knownUnits: string[]) => {
+  const pending = current.pendingRequests[request] ?? { key: `rcv-${Crypto.randomUUID()}`, knownUnits };
+  const next = { ...current, pendingRequests: { ...current.pendingRequests, [request]: pending } };
+  await saveReceiving(next);
+  return { next, pending };
+};
+
+const releaseRequest = (current: ReceivingSession, request: string): ReceivingSession => ({
+  ...current,
+  pendingRequests: Object.fromEntries(Object.entries(current.pendingRequests).filter(([name]) => name !== request)),
+});
+
+// Add units to the product's line, creating the line on first use; a cost of null keeps the line's cost
+const addToLine = (
+  current: ReceivingSession,
+  product: Product,
+  units: { generated?: string[]; confirmed?: string[] },
+  unitCost: number | null
+): ReceivingSession => {
+  const existing = current.lines.find((line) => line.productId === product.id);
+  const line: ReceivingLine = existing
+    ? {
+        ...existing,
+        unitCost: unitCost ?? existing.unitCost,
+        generated: [...existing.generated, ...(units.generated ?? [])],
+        confirmed: [...existing.confirmed, ...(units.confirmed ?? [])],
+      }
+    : {
+        productId: product.id,
+        name: product.name,
+        brand: product.brand,
+        model: product.model,
+        color: product.color,
+        size: product.size,
+        unitCost: unitCost ?? 0,
+        generated: units.generated ?? [],
+        confirmed: units.confirmed ?? [],
+      };
+  return {
+    ...current,
+    lines: existing ? current.lines.map((item) => (item === existing ? line : item)) : [...current.lines, line],
+  };
+};
+
+// Create the units of one model's received sizes. Sizes already in `products` get new units on
+// their product; other sizes are created as new products with the received quantity as stock.
+// Each request is saved to the session as soon as it succeeds, so a failure part-way keeps what was made.
+export const receiveSizes = async (input: ReceiveInput, products: Product[]): Promise<ReceivingLine[]> => {
+  let current = await getReceiving();
+  if (!current) throw new Error('Sesi penerimaan barang tidak aktif.');
+  const received = input.sizes.filter((entry) => entry.quantity > 0);
+  const touched: number[] = [];
+
+  const newSizes: { size: string; stock: number }[] = [];
+  for (const entry of received) {
+    const product = products.find((candidate) => isSameSize(candidate, { ...input, size: entry.size }));
+    if (!product) {
+      newSizes.push({ size: entry.size, stock: entry.quantity });
+      continue;
+    }
+    const request = `units:${product.id}:${entry.quantity}`;
+    const reserved = await reserveRequest(current, request, product.units.map((unit) => unit.unit_code));
+    current = reserved.next;
+    const response = await api.post(
+      `/products/${product.id}/units`,
+      { quantity: entry.quantity, reason: 'receiving', reference: current.reference },
+      { headers: { 'Idempotency-Key': reserved.pending.key }, schema: productResponseSchema }
+    );
+    const before = new Set(reserved.pending.knownUnits);
+    const updated = toProduct(response.data);
+    await saveLocalProduct(updated);
+    const generated = updated.units.filter((unit) => !before.has(unit.unit_code)).map((unit) => unit.unit_code);
+    current = addToLine(releaseRequest(current, request), updated, { generated }, input.unitCost);
+    await saveReceiving(current);
+    touched.push(updated.id);
+  }
+
+  if (newSizes.length > 0) {
+    const payload: ProductPayload = {
+      brand: input.brand.trim(),
+      model: input.model.trim(),
+      color: input.color.trim() || null,
+      sizes: newSizes,
+      selling_price: input.sellingPrice,
+      discount_price: input.discountPrice,
+    };
+    const sizeList = newSizes.map((size) => `${size.size}x${size.stock}`).join(',');
+    const request = `products:${payload.brand}|${payload.model}|${payload.color ?? ''}|${sizeList}`.toLowerCase();
+    const reserved = await reserveRequest(current, request, []);
+    current = reserved.next;
+    const response = await api.post('/products', payload, {
+      headers: { 'Idempotency-Key': reserved.pending.key },
+      schema: productCreateResponseSchema,
+    });
+    for (const created of response.data.map(toProduct)) {
+      await saveLocalProduct(created);
+      current = addToLine(current, created, { generated: created.units.map((unit) => unit.unit_code) }, input.unitCost);
+      touched.push(created.id);
+    }
+    current = releaseRequest(current, request);
+    await saveReceiving(current);
+  }
+
+  return current.lines.filter((line) => touched.includes(line.productId));
+};
+
+// Confirm a labelled pair from the shipment; `products` is the local catalog
+export const confirmUnit = async (data: string, products: Product[]): Promise<ConfirmResult> => {
+  const current = await getReceiving();
+  const unitCode = parseUnitQr(data);
+  if (!current || !unitCode) return { kind: 'invalid' };
+
+  const code = normalizeUnitCode(unitCode);
+  const inSession = current.lines.some((line) =>
+    [...line.generated, ...line.confirmed].some((item) => normalizeUnitCode(item) === code)
+  );
+  if (inSession) return { kind: 'duplicate', unitCode };
+
+  for (const product of products) {
+    const unit = product.units.find((candidate) => normalizeUnitCode(candidate.unit_code) === code);
+    if (!unit) continue;
+    if (unit.sold_at) return { kind: 'sold', unitCode: unit.unit_code };
+    if (!unit.is_active) return { kind: 'inactive', unitCode: unit.unit_code };
+    const next = addToLine(current, product, { confirmed: [unit.unit_code] }, null);
+    await saveReceiving(next);
+    return { kind: 'confirmed', line: next.lines.find((line) => line.productId === product.id) as ReceivingLine, unitCode: unit.unit_code };
+  }
+  return { kind: 'unknown', unitCode };
+};
+
+// Undo a confirm scan; generated units cannot be removed here since they already exist
+export const removeConfirmed = async (unitCode: string) => {
+  const current = await getReceiving();
+  if (!current) return;
+  const lines = current.lines
+    .map((line) => ({ ...line, confirmed: line.confirmed.filter((item) => item !== unitCode) }))
+    .filter((line) => line.generated.length > 0 || line.confirmed.length > 0);
+  await saveReceiving({ ...current, lines });
+};
+
+export const setLineCost = async (productId: number, unitCost: number) => {
+  const current = await getReceiving();
+  if (!current) return;
+  await saveReceiving({
+    ...current,
+    lines: current.lines.map((line) => (line.productId === productId ? { ...line, unitCost } : line)),
+  });
+};
+
+export const lineQuantity = (line: ReceivingLine) => line.generated.length + line.confirmed.length;
+
+export const receivingTotals = (current: ReceivingSession) => ({
+  units: current.lines.reduce((sum, line) => sum + lineQuantity(line), 0),
+  cost: current.lines.reduce((sum, line) => sum + lineQuantity(line) * line.unitCost, 0),
+});
+
+// Record the receiving document and end the session
+export const closeReceiving = async (notes: string): Promise<{ document: ReceivingDto; session: ReceivingSession }> => {
+  const current = await getReceiving();
+  if (!current) throw new Error('Sesi penerimaan barang tidak aktif.');
+  // Retrying the same document reuses its key; adding units after a failed attempt makes a new one
+  const lineList = current.lines.map((line) => `${line.productId}x${lineQuantity(line)}`).join(',');
+  const reserved = await reserveRequest(current, `receiving:${lineList}`, []);
+  const response = await api.post(
+    '/receivings',
+    {
+      supplier: current.supplier,
+      reference: current.reference || null,
+      received_at: current.receivedAt,
+      started_at: current.startedAt,
+      notes: notes.trim() || null,
+      items: current.lines.map((line) => ({
+        product_id: line.productId,
+        quantity: lineQuantity(line),
+        unit_cost: line.unitCost,
+        generated_unit_codes: line.generated,
+        confirmed_unit_codes: line.confirmed,
+      })),
+    },
+    { headers: { 'Idempotency-Key': reserved.pending.key }, schema: receivingResponseSchema }
+  );
+  await discardReceiving();
+  return { document: response.data, session: current };
+};
+
+// Plain-text copy of the document for WhatsApp or email
+export const receivingText = (document: ReceivingDto, closed: ReceivingSession) =>
+  [
+    `PENERIMAAN BARANG ${document.number}`,
+    `Supplier: ${document.supplier || closed.supplier}`,
+    ...(closed.reference ? [`No. Nota/Surat Jalan: ${closed.reference}`] : []),
+    `Tanggal: ${new Date(document.received_at).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' })}`,
+    '',
+    ...closed.lines.map(
+      (line) =>
+        `${line.name} ${line.color || '-'} uk ${line.size || '-'}: ${lineQuantity(line)} psg x ${formatRupiah(line.unitCost)}`
+    ),
+    '',
+    `Total: ${document.total_units} pasang · ${formatRupiah(document.total_cost)}`,
+  ].join('\n');
@@ -0,0 +1,249 @@
+import { z } from 'zod';
+
+// Decoders for every backend response.
+// Laravel sends decimals as strings ("150000.00"), so money and counts are coerced to numbers here
+// and screens never parse them again. A response that does not match fails as one ApiError('invalid_response').
+
+const toNumber = (value: number | string, ctx: z.RefinementCtx) => {
+  const parsed = typeof value === 'number' ? value : Number(value.trim());
+  if (value === '' || !Number.isFinite(parsed)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" bukan angka` });
+    return z.NEVER;
+  }
+  return parsed;
+};
+
+// Rupiah amount sent as number or decimal string
+export const money = z.union([z.number(), z.string()]).transform(toNumber);
+
+// Optional amount (discounts); null, missing and "" all mean "no amount"
+export const optionalMoney = z
+  .union([z.number(), z.string()])
+  .nullish()
+  .transform((value, ctx) => (value === null || value === undefined || value === '' ? null : toNumber(value, ctx)));
+
+// Whole number sent as number or string (stock, quantities)
+export const count = z.union([z.number(), z.string()]).transform(toNumber).pipe(z.number().int());
+
+// Free text the backend may leave empty
+const text = z.string().nullish().transform((value) => value ?? '');
+
+const flag = z.union([z.number(), z.boolean()]).transform((value) => Number(value));
+
+// --- Auth ---
+
+export const sessionUserSchema = z.object({
+  id: z.number(),
+  nama: z.string(),
+  email: z.string(),
+  role: z.string(),
+});
+
+export const loginResponseSchema = z.object({
+  pesan: z.string().optional(),
+  token: z.string(),
+  user: sessionUserSchema,
+});
+
+export const refreshResponseSchema = z.object({
+  token: z.string(),
+});
+
+// --- Products ---
+
+export const productUnitSchema = z.object({
+  unit_code: z.string(),
+  qr_code: z.string().nullish().transform((value) => value ?? null),
+  is_active: flag.default(1),
+  created_at: z.string().nullish().transform((value) => value ?? null),
+  // Set once the unit has been sold
+  sold_at: z.string().nullish().transform((value) => value ?? null),
+});
+
+export const productSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  brand: text,
+  model: text,
+  size: text,
+  color: text,
+  stock: count,
+  selling_price: money,
+  discount_price: optionalMoney,
+  units: z.array(productUnitSchema),
+  // Product photo and its small version for lists; older backends send neither
+  photo_url: z.string().nullish().transform((value) => value ?? null),
+  thumbnail_url: z.string().nullish().transform((value) => value ?? null),
+});
+
+// Products saved in the inventory_products cache
+export const productCacheSchema = z.array(productSchema);
+
+export const paginationSchema = z.object({
+  last_page: count,
+});
+
+export const productListResponseSchema = z.object({
+  data: z.object({
+    products: z.array(productSchema),
+    pagination: paginationSchema.optional(),
+  }),
+});
+
+export const productResponseSchema = z.object({
+  data: productSchema,
+});
+
+// POST /products creates one product per size (each with its units); older backends answer with a single product
+export const productCreateResponseSchema = z.object({
+  data: z.union([z.array(productSchema), productSchema.transform((product) => [product])]),
+});
+
+// PUT /products/variants answers with every size of the edited model
+export const productVariantsResponseSchema = z.object({
+  data: z.array(productSchema),
+});
+
+// POST /stock-takes answers with the products whose stock was adjusted
+export const stockTakeResponseSchema = z.object({
+  data: z.array(productSchema),
+});
+
+// PUT /products/prices: new prices for many products in one request; each product is saved or rejected on its own
+export const bulkPriceResponseSchema = z.object({
+  data: z.object({
+    updated: z.array(productSchema),
+    failed: z.array(z.object({ product_id: z.number(), message: text })),
+  }),
+});
+
+// POST /receivings: the receiving document (surat terima barang) recorded for a closed receiving session
+export const receivingSchema = z.object({
+  id: z.number(),
+  number: z.string(),
+  supplier: text,
+  received_at: z.string(),
+  total_units: count,
+  total_cost: money,
+});
+
+export const receivingResponseSchema = z.object({
+  data: receivingSchema,
+});
+
+// Delta sync page: products created or changed since `since` (with their full unit list)
+// plus ids of products deleted since then. `synced_at` is the server clock to pass as the next `since`.
+export const productChangesResponseSchema = z.object({
+  data: z.object({
+    products: z.array(productSchema),
+    deleted_ids: z.array(z.number()),
+    synced_at: z.string(),
+    pagination: paginationSchema.optional(),
+  }),
+});
+
+// --- Stock movements ---
+
+// One ledger entry; `quantity` is signed (receiving and returns add stock, sales and adjustments may remove it)
+export const stockMovementSchema = z.object({
+  id: z.number(),
+  type: z.string(),
+  quantity: count,
+  unit_code: z.string().nullish().transform((value) => value || null),
+  invoice_number: z.string().nullish().transform((value) => value || null),
+  reason: z.string().nullish().transform((value) => value || null),
+  user_name: z.string().nullish().transform((value) => value || null),
+  created_at: z.string(),
+});
+
+export const stockMovementListResponseSchema = z.object({
+  data: z.object({
+    movements: z.array(stockMovementSchema),
+    pagination: paginationSchema.optional(),
+  }),
+});
+
+// --- Transactions ---
+
+export const transactionItemSchema = z.object({
+  id: z.number(),
+  product_id: z.number(),
+  product_name: text,
+  product_unit_id: z.number(),
+  unit_code: text,
+  color: z.string().nullable(),
+  size: z.string().nullable(),
+  quantity: count,
+  price: money,
+  discount: optionalMoney.transform((value) => value ?? 0),
+  subtotal: money,
+});
+
+export const transactionSchema = z.object({
+  id: z.number(),
+  invoice_number: text,
+  user_id: z.number(),
+  user_name: text,
+  cashier_name: z.string().nullish().transform((value) => value || null),
+  total_amount: money,
+  tax_amount: optionalMoney.transform((value) => value ?? 0),
+  discount_amount: optionalMoney.transform((value) => value ?? 0),
+  final_amount: money,
+  payment_method: z.string(),
+  card_type: z.string().nullable(),
+  payment_status: z.string(),
+  customer_name: text,
+  customer_phone: text,
+  customer_email: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.string(),
+  items: z.array(transactionItemSchema),
+});
+
+export const transactionListResponseSchema = z.object({
+  data: z.object({
+    transactions: z.array(transactionSchema),
+  }),
+});
+
+// The sale is created by a 2xx; the body only carries an optional message
+export const transactionCreateResponseSchema = z.object({
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+});
+
+// --- Dashboard ---
+
+export const dashboardResponseSchema = z.object({
+  data: z.object({
+    total_products: count,
+    total_transactions: count,
+    total_sales: money,
+    hourly_data: z.array(count),
+    labels: z.array(z.string()),
+    top_products: z.array(
+      z.object({
+        name: z.string().nullish().transform((value) => value || '-'),
+        quantity: count,
+      })
+    ),
+    recent_transactions: z.array(
+      z.object({
+        id: z.number(),
+        created_at: z.string(),
+        user: z.object({ name: text }),
+        items: z.array(z.object({ product: z.object({ name: text }) })),
+        final_amount: money,
+        status: text,
+      })
+    ),
+  }),
+});
+
+export type ProductDto = z.infer<typeof productSchema>;
+export type ProductUnitDto = z.infer<typeof productUnitSchema>;
+export type TransactionDto = z.infer<typeof transactionSchema>;
+export type TransactionItemDto = z.infer<typeof transactionItemSchema>;
+export type StockMovementDto = z.infer<typeof stockMovementSchema>;
+export type ReceivingDto = z.infer<typeof receivingSchema>;
+export type DashboardData = z.infer<typeof dashboardResponseSchema>['data'];
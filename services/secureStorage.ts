@@ -0,0 +1,66 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from 'react-native-encrypted-storage';
+
+// Encrypted key/value storage (Android Keystore-backed prefs / iOS Keychain) for secrets: the auth
+// token, remembered login credentials, cashier PINs and the wrong-PIN lockout. Everything else stays in AsyncStorage.
+
+export const SECURE_TOKEN_KEY = 'auth_token';
+export const SECURE_CREDENTIALS_KEY = 'remembered_credentials';
+export const SECURE_CASHIERS_KEY = 'cashier_roster';
+export const SECURE_PIN_LOCKOUT_KEY = 'cashier_pin_lockout';
+
+// Plaintext keys written to AsyncStorage by earlier app versions
+const LEGACY_TOKEN_KEY = 'token';
+const LEGACY_EMAIL_KEY = 'savedEmail';
+const LEGACY_PASSWORD_KEY = 'savedPassword';
+const LEGACY_REMEMBER_KEY = 'rememberMe';
+
+export const getSecureItem = async (key: string): Promise<string | null> => {
+  try {
+    return (await EncryptedStorage.getItem(key)) ?? null;
+  } catch (error) {
+    console.error(`Gagal membaca ${key} dari penyimpanan aman:`, error);
+    return null;
+  }
+};
+
+export const setSecureItem = async (key: string, value: string) => {
+  await EncryptedStorage.setItem(key, value);
+};
+
+export const removeSecureItem = async (key: string) => {
+  try {
+    await EncryptedStorage.removeItem(key);
+  } catch {
+    // iOS rejects when the key does not exist; nothing to remove
+  }
+};
+
+let migration: Promise<void> | null = null;
+
+// Moves the token and remembered credentials out of plaintext AsyncStorage, then deletes the old keys.
+// Runs once per app start; session and credential reads wait for it.
+export const migrateLegacySecrets = (): Promise<void> => {
+  if (!migration) {
+    migration = (async () => {
+      try {
+        const [[, token], [, email], [, password], [, remember]] = await AsyncStorage.multiGet([
+          LEGACY_TOKEN_KEY,
+          LEGACY_EMAIL_KEY,
+          LEGACY_PASSWORD_KEY,
+          LEGACY_REMEMBER_KEY,
+        ]);
+        if (token && !(await getSecureItem(SECURE_TOKEN_KEY))) {
+          await setSecureItem(SECURE_TOKEN_KEY, token);
+        }
+        if (email && password && remember === 'true' && !(await getSecureItem(SECURE_CREDENTIALS_KEY))) {
+          await setSecureItem(SECURE_CREDENTIALS_KEY, JSON.stringify({ email, password, biometric: false }));
+        }
+        await AsyncStorage.multiRemove([LEGACY_TOKEN_KEY, LEGACY_EMAIL_KEY, LEGACY_PASSWORD_KEY, LEGACY_REMEMBER_KEY]);
+      } catch (error) {
+        console.error('Gagal memindahkan data login ke penyimpanan aman:', error);
+      }
+    })();
+  }
+  return migration;
+};
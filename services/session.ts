@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api, configureAuth } from './api';
+import { refreshResponseSchema } from './schemas';
+import { getSecureItem, migrateLegacySecrets, removeSecureItem, SECURE_TOKEN_KEY, setSecureItem } from './secureStorage';
+
+// Session layer: owns the stored token (in encrypted storage), refreshes it silently when the
+// backend answers 401 and tells the navigator when the user really has to log in again.
+
+const USER_KEY = 'user';
+const RETURN_ROUTE_KEY = 'session_return_route';
+
+export interface SessionUser {
+  id: number;
+  nama: string;
+  email: string;
+  role: string;
+}
+
+// Screen the user was on when the session expired, restored after the next login
+export interface ReturnRoute {
+  name: string;
+  params?: object;
+}
+
+interface StoredReturnRoute extends ReturnRoute {
+  userId: number | null;
+}
+
+type ExpiredListener = () => void;
+type UserListener = (user: SessionUser | null) => void;
+
+const expiredListeners = new Set<ExpiredListener>();
+const userListeners = new Set<UserListener>();
+let refreshInFlight: Promise<boolean> | null = null;
+let expired = false;
+
+export const getToken = async () => {
+  await migrateLegacySecrets();
+  return getSecureItem(SECURE_TOKEN_KEY);
+};
+
+export const getSessionUser = async (): Promise<SessionUser | null> => {
+  try {
+    const user = await AsyncStorage.getItem(USER_KEY);
+    return user ? (JSON.parse(user) as SessionUser) : null;
+  } catch (error) {
+    console.error('Gagal membaca data user:', error);
+    return null;
+  }
+};
+
+export const startSession = async (token: string, user: SessionUser) => {
+  await setSecureItem(SECURE_TOKEN_KEY, token);
+  await AsyncStorage.setItem(USER_KEY, JSON.stringify(user));
+  expired = false;
+  userListeners.forEach((listener) => listener(user));
+};
+
+// Signed-in user from the previous app run, or null when the app has to start at Login.
+// A stored token is trusted here; if it has expired, the first request refreshes it or ends the session.
+export const restoreSession = async (): Promise<SessionUser | null> => {
+  const [token, user] = await Promise.all([getToken(), getSessionUser()]);
+  if (token && user) return user;
+  // Half a session (token without user or the reverse) cannot be used; start clean
+  if (token || user) {
+    await removeSecureItem(SECURE_TOKEN_KEY);
+    await AsyncStorage.removeItem(USER_KEY);
+  }
+  return null;
+};
+
+// Forget the token and the signed-in user on this device
+export const endSession = async () => {
+  await removeSecureItem(SECURE_TOKEN_KEY);
+  await AsyncStorage.multiRemove([USER_KEY, RETURN_ROUTE_KEY]);
+  userListeners.forEach((listener) => listener(null));
+};
+
+// Called whenever a different user signs in on this device, or the session ends
+export const subscribeSessionUser = (listener: UserListener) => {
+  userListeners.add(listener);
+  return () => {
+    userListeners.delete(listener);
+  };
+};
+
+export const onSessionExpired = (listener: ExpiredListener) => {
+  expiredListeners.add(listener);
+  return () => {
+    expiredListeners.delete(listener);
+  };
+};
+
+const refreshToken = async (): Promise<boolean> => {
+  try {
+    const result = await api.post('/refresh', undefined, { refreshOnUnauthorized: false, schema: refreshResponseSchema });
+    if (!result.token) return false;
+    await setSecureItem(SECURE_TOKEN_KEY, result.token);
+    return true;
+  } catch (error) {
+    console.warn('Refresh token gagal:', error);
+    return false;
+  }
+};
+
+const expireSession = async () => {
+  if (expired) return;
+  expired = true;
+  await removeSecureItem(SECURE_TOKEN_KEY);
+  expiredListeners.forEach((listener) => listener());
+};
+
+// Several requests usually fail together; they all wait on the same refresh attempt
+const handleUnauthorized = (): Promise<boolean> => {
+  if (expired) return Promise.resolve(false);
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const token = await getToken();
+      const refreshed = token ? await refreshToken() : false;
+      if (!refreshed) {
+        await expireSession();
+      }
+      return refreshed;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+configureAuth({ getToken, onUnauthorized: handleUnauthorized });
+
+export const saveReturnRoute = async (route: ReturnRoute) => {
+  try {
+    const user = await getSessionUser();
+    const stored: StoredReturnRoute = { ...route, userId: user?.id ?? null };
+    await AsyncStorage.setItem(RETURN_ROUTE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Gagal menyimpan rute terakhir:', error);
+  }
+};
+
+// Returns the saved route once, and only to the same user who was logged out
+export const takeReturnRoute = async (userId: number): Promise<ReturnRoute | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(RETURN_ROUTE_KEY);
+    await AsyncStorage.removeItem(RETURN_ROUTE_KEY);
+    if (!saved) return null;
+    const { userId: savedUserId, ...route } = JSON.parse(saved) as StoredReturnRoute;
+    return savedUserId === userId ? route : null;
+  } catch (error) {
+    console.error('Gagal membaca rute terakhir:', error);
+    return null;
+  }
+};
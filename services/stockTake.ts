@@ -0,0 +1,253 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from './api';
+import { normalizeUnitCode, parseUnitQr, Product, sameText, toProduct } from './domain';
+import { saveLocalProduct } from './productSync';
+import { stockTakeResponseSchema } from './schemas';
+import { getSessionUser } from './session';
+
+// Stock-take (stok opname): every unit on the shelf is scanned and compared with the units the
+// catalog expects in that area. Progress is saved after each scan, so a count survives app restarts.
+// An area is a named group of brands (e.g. "Rak A"), since products carry no shelf location.
+// A count belongs to the user who started it; it is dropped when someone else is signed in.
+
+const STOCK_TAKE_KEY = 'stock_take_session';
+
+export interface StockTakeUnit {
+  unit_code: string;
+  product_id: number;
+}
+
+export interface StockTakeProduct {
+  id: number;
+  name: string;
+  brand: string;
+  size: string;
+  // Catalog stock when the session started
+  stock: number;
+}
+
+// Why a scanned unit was not on the expected list
+export type UnexpectedReason = 'out_of_scope' | 'sold' | 'inactive' | 'unknown';
+
+export const UNEXPECTED_LABELS: Record<UnexpectedReason, string> = {
+  out_of_scope: 'Di luar area',
+  sold: 'Tercatat terjual',
+  inactive: 'Unit nonaktif',
+  unknown: 'Tidak dikenal',
+};
+
+export interface UnexpectedUnit {
+  unit_code: string;
+  reason: UnexpectedReason;
+  product_id: number | null;
+}
+
+export interface StockTakeSession {
+  area: string;
+  // Empty means every brand
+  brands: string[];
+  startedAt: string;
+  startedBy: string;
+  // Session user who started the count
+  userId: number | null;
+  products: StockTakeProduct[];
+  expected: StockTakeUnit[];
+  // Normalized codes of expected units that were scanned
+  found: string[];
+  unexpected: UnexpectedUnit[];
+}
+
+export type ScanResult =
+  | { kind: 'found'; unit: StockTakeUnit }
+  | { kind: 'duplicate'; unitCode: string }
+  | { kind: 'unexpected'; unit: UnexpectedUnit }
+  | { kind: 'invalid' };
+
+export interface StockAdjustment {
+  product: StockTakeProduct;
+  counted: number;
+  missingUnitCodes: string[];
+}
+
+export interface StockTakeReport {
+  found: StockTakeUnit[];
+  missing: StockTakeUnit[];
+  unexpected: UnexpectedUnit[];
+  // Products whose counted stock differs from the catalog
+  adjustments: StockAdjustment[];
+}
+
+let session: StockTakeSession | null | undefined;
+
+const saveStockTake = async (next: StockTakeSession | null) => {
+  session = next;
+  try {
+    if (next) {
+      await AsyncStorage.setItem(STOCK_TAKE_KEY, JSON.stringify(next));
+    } else {
+      await AsyncStorage.removeItem(STOCK_TAKE_KEY);
+    }
+  } catch (error) {
+    console.error('Gagal menyimpan sesi stok opname:', error);
+  }
+};
+
+export const getStockTake = async (): Promise<StockTakeSession | null> => {
+  if (session === undefined) {
+    try {
+      const saved = await AsyncStorage.getItem(STOCK_TAKE_KEY);
+      session = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('Gagal memuat sesi stok opname:', error);
+      session = null;
+    }
+  }
+  if (session && session.userId !== ((await getSessionUser())?.id ?? null)) {
+    await saveStockTake(null);
+  }
+  return session ?? null;
+};
+
+const inScope = (brands: string[], product: Product) =>
+  brands.length === 0 || brands.some((brand) => sameText(brand, product.brand));
+
+// Units expected on the shelf: active and not sold
+export const startStockTake = async (
+  products: Product[],
+  options: { area: string; brands: string[]; startedBy: string }
+): Promise<StockTakeSession> => {
+  const scoped = products.filter((product) => inScope(options.brands, product));
+  const next: StockTakeSession = {
+    area: options.area.trim(),
+    brands: options.brands,
+    startedAt: new Date().toISOString(),
+    startedBy: options.startedBy,
+    userId: (await getSessionUser())?.id ?? null,
+    products: scoped.map((product) => ({
+      id: product.id,
+      name: product.name,
+      brand: product.brand,
+      size: product.size,
+      stock: product.stock,
+    })),
+    expected: scoped.flatMap((product) =>
+      product.units
+        .filter((unit) => unit.is_active && !unit.sold_at)
+        .map((unit) => ({ unit_code: unit.unit_code, product_id: product.id }))
+    ),
+    found: [],
+    unexpected: [],
+  };
+  await saveStockTake(next);
+  return next;
+};
+
+const unexpectedReason = (products: Product[], brands: string[], code: string): UnexpectedUnit => {
+  for (const product of products) {
+    const unit = product.units.find((candidate) => normalizeUnitCode(candidate.unit_code) === code);
+    if (!unit) continue;
+    const reason: UnexpectedReason = unit.sold_at
+      ? 'sold'
+      : !unit.is_active
+        ? 'inactive'
+        : inScope(brands, product)
+          ? 'unknown'
+          : 'out_of_scope';
+    return { unit_code: unit.unit_code, reason, product_id: product.id };
+  }
+  return { unit_code: code, reason: 'unknown', product_id: null };
+};
+
+// Record one scanned label; `products` is the local catalog, used to explain unexpected units
+export const recordScan = async (data: string, products: Product[]): Promise<ScanResult> => {
+  const current = await getStockTake();
+  const unitCode = parseUnitQr(data);
+  if (!current || !unitCode) return { kind: 'invalid' };
+
+  const code = normalizeUnitCode(unitCode);
+  if (current.found.includes(code) || current.unexpected.some((unit) => normalizeUnitCode(unit.unit_code) === code)) {
+    return { kind: 'duplicate', unitCode };
+  }
+
+  const expected = current.expected.find((unit) => normalizeUnitCode(unit.unit_code) === code);
+  if (expected) {
+    await saveStockTake({ ...current, found: [...current.found, code] });
+    return { kind: 'found', unit: expected };
+  }
+
+  const unexpected = unexpectedReason(products, current.brands, code);
+  await saveStockTake({ ...current, unexpected: [...current.unexpected, unexpected] });
+  return { kind: 'unexpected', unit: unexpected };
+};
+
+// Undo a scan, e.g. a label scanned from the wrong shelf
+export const removeScan = async (unitCode: string) => {
+  const current = await getStockTake();
+  if (!current) return;
+  const code = normalizeUnitCode(unitCode);
+  await saveStockTake({
+    ...current,
+    found: current.found.filter((item) => item !== code),
+    unexpected: current.unexpected.filter((unit) => normalizeUnitCode(unit.unit_code) !== code),
+  });
+};
+
+export const discardStockTake = () => saveStockTake(null);
+
+// Counted units per product in the session's scope
+export const countedStock = (current: StockTakeSession): Map<number, number> => {
+  const found = new Set(current.found);
+  const counts = new Map(current.products.map((product) => [product.id, 0]));
+  current.expected
+    .filter((unit) => found.has(normalizeUnitCode(unit.unit_code)))
+    .forEach((unit) => counts.set(unit.product_id, (counts.get(unit.product_id) ?? 0) + 1));
+  return counts;
+};
+
+export const stockTakeReport = (current: StockTakeSession): StockTakeReport => {
+  const found = new Set(current.found);
+  const counts = countedStock(current);
+  const missing = current.expected.filter((unit) => !found.has(normalizeUnitCode(unit.unit_code)));
+  return {
+    found: current.expected.filter((unit) => found.has(normalizeUnitCode(unit.unit_code))),
+    missing,
+    unexpected: current.unexpected,
+    adjustments: current.products
+      .map((product) => ({
+        product,
+        counted: counts.get(product.id) ?? 0,
+        missingUnitCodes: missing.filter((unit) => unit.product_id === product.id).map((unit) => unit.unit_code),
+      }))
+      .filter((adjustment) => adjustment.counted !== adjustment.product.stock),
+  };
+};
+
+// Send the counted stock as adjustments; missing units are flagged by the backend and the session ends
+export const applyStockTake = async (): Promise<number> => {
+  const current = await getStockTake();
+  if (!current) return 0;
+  const report = stockTakeReport(current);
+  const response = await api.post(
+    '/stock-takes',
+    {
+      area: current.area,
+      brands: current.brands,
+      started_at: current.startedAt,
+      finished_at: new Date().toISOString(),
+      found_unit_codes: report.found.map((unit) => unit.unit_code),
+      missing_unit_codes: report.missing.map((unit) => unit.unit_code),
+      unexpected_unit_codes: report.unexpected.map((unit) => unit.unit_code),
+      adjustments: report.adjustments.map((adjustment) => ({
+        product_id: adjustment.product.id,
+        system_stock: adjustment.product.stock,
+        counted_stock: adjustment.counted,
+      })),
+    },
+    { schema: stockTakeResponseSchema }
+  );
+  for (const dto of response.data) {
+    await saveLocalProduct(toProduct(dto));
+  }
+  await discardStockTake();
+  return report.adjustments.length;
+};
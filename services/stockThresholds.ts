@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Product, sameText } from './domain';
+
+// Low-stock thresholds: the minimum stock a product should have before it needs restocking.
+// A rule can cover a whole brand, one model of a brand or a single product (one size);
+// the most specific rule wins, and products without a rule use the default.
+
+const THRESHOLDS_KEY = 'stock_thresholds';
+
+// The value that used to be hard-coded in Inventory
+export const DEFAULT_MINIMUM_STOCK = 5;
+
+export type ThresholdScope = 'brand' | 'model' | 'product';
+
+export interface ThresholdRule {
+  id: string;
+  scope: ThresholdScope;
+  brand: string;
+  // Set for model and product rules
+  model: string | null;
+  // Set for product rules
+  productId: number | null;
+  minimum: number;
+}
+
+export interface StockThresholds {
+  defaultMinimum: number;
+  rules: ThresholdRule[];
+}
+
+export type StockLevel = 'ok' | 'low' | 'out';
+
+type ChangeListener = (thresholds: StockThresholds) => void;
+
+const listeners = new Set<ChangeListener>();
+let thresholds: StockThresholds | null = null;
+
+export const getStockThresholds = async (): Promise<StockThresholds> => {
+  if (thresholds) return thresholds;
+  try {
+    const saved = await AsyncStorage.getItem(THRESHOLDS_KEY);
+    thresholds = saved ? JSON.parse(saved) : { defaultMinimum: DEFAULT_MINIMUM_STOCK, rules: [] };
+  } catch (error) {
+    console.error('Gagal memuat batas stok:', error);
+    thresholds = { defaultMinimum: DEFAULT_MINIMUM_STOCK, rules: [] };
+  }
+  return thresholds as StockThresholds;
+};
+
+export const saveStockThresholds = async (next: StockThresholds) => {
+  thresholds = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(THRESHOLDS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Gagal menyimpan batas stok:', error);
+  }
+};
+
+export const subscribeStockThresholds = (listener: ChangeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const ruleMatches = (rule: ThresholdRule, product: Product) => {
+  switch (rule.scope) {
+    case 'product':
+      return rule.productId === product.id;
+    case 'model':
+      return sameText(rule.brand, product.brand) && sameText(rule.model, product.model);
+    default:
+      return sameText(rule.brand, product.brand);
+  }
+};
+
+const SCOPE_ORDER: ThresholdScope[] = ['product', 'model', 'brand'];
+
+export const minimumStock = (settings: StockThresholds, product: Product): number => {
+  for (const scope of SCOPE_ORDER) {
+    const rule = settings.rules.find((candidate) => candidate.scope === scope && ruleMatches(candidate, product));
+    if (rule) return rule.minimum;
+  }
+  return settings.defaultMinimum;
+};
+
+export const stockLevel = (settings: StockThresholds, product: Product): StockLevel => {
+  if (product.stock <= 0) return 'out';
+  return product.stock < minimumStock(settings, product) ? 'low' : 'ok';
+};
+
+export const useStockThresholds = (): { ready: boolean; thresholds: StockThresholds } => {
+  const [state, setState] = useState<StockThresholds | null>(thresholds);
+
+  useEffect(() => {
+    let mounted = true;
+    getStockThresholds().then((current) => {
+      if (mounted) setState(current);
+    });
+    const unsubscribe = subscribeStockThresholds(setState);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return {
+    ready: state !== null,
+    thresholds: state ?? { defaultMinimum: DEFAULT_MINIMUM_STOCK, rules: [] },
+  };
+};
+
+// --- Reorder report ---
+
+export interface ReorderSize {
+  product: Product;
+  level: Exclude<StockLevel, 'ok'>;
+  minimum: number;
+  // Pairs needed to get back to the minimum
+  suggested: number;
+}
+
+export interface ReorderModel {
+  brand: string;
+  model: string;
+  color: string;
+  sizes: ReorderSize[];
+}
+
+// Low and out-of-stock sizes grouped by brand and model (with colour), brands A–Z
+export const reorderReport = (products: Product[], settings: StockThresholds): ReorderModel[] => {
+  const groups = new Map<string, ReorderModel>();
+  products.forEach((product) => {
+    const level = stockLevel(settings, product);
+    if (level === 'ok') return;
+    const minimum = minimumStock(settings, product);
+    const key = [product.brand, product.model, product.color].map((value) => (value || '').trim().toLowerCase()).join('|');
+    const group = groups.get(key) ?? { brand: product.brand, model: product.model, color: product.color, sizes: [] };
+    group.sizes.push({ product, level, minimum, suggested: Math.max(minimum - product.stock, 1) });
+    groups.set(key, group);
+  });
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      sizes: group.sizes.sort((a, b) => a.product.size.localeCompare(b.product.size, undefined, { numeric: true })),
+    }))
+    .sort((a, b) => a.brand.localeCompare(b.brand) || a.model.localeCompare(b.model));
+};
@@ -0,0 +1,206 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { api, ApiError, isUnauthorized } from './api';
+import { CartItem, normalizeUnitCode, TransactionPayload } from './domain';
+import { transactionCreateResponseSchema } from './schemas';
+import { getSessionUser, getToken } from './session';
+
+// Durable queue for sales made while the shop is offline.
+// Every sale carries an idempotency key, so replaying it after a lost response can never create it twice.
+// A sale is only sent under the account that made it; after an expired session another account
+// can sign in on the same device, and its sales stay queued until their own account is back.
+
+const QUEUE_KEY = 'transaction_queue';
+
+export type QueuedTransactionStatus = 'pending' | 'sending' | 'failed';
+
+export interface QueuedTransaction {
+  // Also sent as the Idempotency-Key header
+  id: string;
+  // Account that made the sale; null for sales queued before this was recorded
+  userId: number | null;
+  payload: TransactionPayload;
+  // Kept so a rejected sale can be loaded back into the form
+  cart: CartItem[];
+  total: number;
+  status: QueuedTransactionStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+}
+
+type QueueListener = (queue: QueuedTransaction[]) => void;
+
+const listeners = new Set<QueueListener>();
+let queue: QueuedTransaction[] | null = null;
+let flushInFlight: Promise<void> | null = null;
+
+export const createIdempotencyKey = (): string => `trx-${Crypto.randomUUID()}`;
+
+const loadQueue = async (): Promise<QueuedTransaction[]> => {
+  if (queue) return queue;
+  try {
+    const saved = await AsyncStorage.getItem(QUEUE_KEY);
+    const parsed: QueuedTransaction[] = saved ? JSON.parse(saved) : [];
+    // A sale that was mid-flight when the app closed goes back to pending
+    queue = parsed.map((item) => ({
+      ...item,
+      userId: item.userId ?? null,
+      status: item.status === 'sending' ? 'pending' : item.status,
+    }));
+  } catch (error) {
+    console.error('Gagal memuat antrean transaksi:', error);
+    queue = [];
+  }
+  return queue;
+};
+
+const saveQueue = async (next: QueuedTransaction[]) => {
+  queue = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Gagal menyimpan antrean transaksi:', error);
+  }
+};
+
+const updateItem = async (id: string, changes: Partial<QueuedTransaction>) => {
+  const current = await loadQueue();
+  await saveQueue(current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+};
+
+export const getQueue = () => loadQueue();
+
+export const subscribeQueue = (listener: QueueListener) => {
+  listeners.add(listener);
+  loadQueue().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Whether `userId` may send this sale. Sales queued before the owner was recorded go out with
+// whoever is signed in, as they always did.
+export const isQueuedBy = (item: QueuedTransaction, userId: number | null) =>
+  item.userId === null || item.userId === userId;
+
+// Unit codes already sold in a queued sale; they must not be offered again until it is posted
+export const queuedUnitCodes = (items: QueuedTransaction[]): Set<string> =>
+  new Set(items.flatMap((item) => item.payload.products.map((product) => normalizeUnitCode(product.unit_code))));
+
+export const isOffline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  return state.isConnected === false || state.isInternetReachable === false;
+};
+
+export const postTransaction = (payload: TransactionPayload) =>
+  api.post('/transactions', payload, {
+    headers: { 'Idempotency-Key': payload.client_reference },
+    schema: transactionCreateResponseSchema,
+  });
+
+// A 409 means the backend already has a sale with this idempotency key; it must not be sent again
+export const isAlreadyRecorded = (error: unknown) => error instanceof ApiError && error.status === 409;
+
+// A 2xx the app cannot read (a captive portal page, a changed backend) may or may not be a created
+// sale. It stays queued as failed for the cashier to check; resending under the same key is safe.
+export const isUnreadableResponse = (error: unknown): error is ApiError => error instanceof ApiError && error.kind === 'invalid_response';
+
+// Network and timeout failures mean "try again later"; anything else needs the cashier
+export const isRetryableError = (error: unknown) => error instanceof ApiError && error.isTransient;
+
+// `failedWith` queues the sale as failed with that message instead of pending
+export const enqueueTransaction = async (
+  payload: TransactionPayload,
+  cart: CartItem[],
+  total: number,
+  failedWith: string | null = null
+) => {
+  const current = await loadQueue();
+  if (current.some((item) => item.id === payload.client_reference)) return;
+  const entry: QueuedTransaction = {
+    id: payload.client_reference,
+    userId: (await getSessionUser())?.id ?? null,
+    payload,
+    cart,
+    total,
+    status: failedWith ? 'failed' : 'pending',
+    attempts: 0,
+    lastError: failedWith,
+    createdAt: new Date().toISOString(),
+  };
+  await saveQueue([...current, entry]);
+};
+
+export const removeQueuedTransaction = async (id: string) => {
+  const current = await loadQueue();
+  await saveQueue(current.filter((item) => item.id !== id));
+};
+
+// Drops every queued sale, sent or not; used on logout after the user has been warned
+export const clearQueue = async () => {
+  queue = [];
+  listeners.forEach((listener) => listener([]));
+  try {
+    await AsyncStorage.removeItem(QUEUE_KEY);
+  } catch (error) {
+    console.error('Gagal menghapus antrean transaksi:', error);
+  }
+};
+
+export const retryQueuedTransaction = async (id: string) => {
+  await updateItem(id, { status: 'pending', lastError: null });
+  await flushQueue();
+};
+
+const sendQueued = async (item: QueuedTransaction): Promise<'sent' | 'offline' | 'failed'> => {
+  await updateItem(item.id, { status: 'sending', attempts: item.attempts + 1 });
+  try {
+    await postTransaction(item.payload);
+    await removeQueuedTransaction(item.id);
+    return 'sent';
+  } catch (error) {
+    if (isAlreadyRecorded(error)) {
+      await removeQueuedTransaction(item.id);
+      return 'sent';
+    }
+    const message = error instanceof Error ? error.message : 'Terjadi kesalahan tidak diketahui.';
+    // Offline, or logged out: keep it pending and try again later
+    if (isRetryableError(error) || isUnauthorized(error)) {
+      await updateItem(item.id, { status: 'pending', lastError: message });
+      return 'offline';
+    }
+    await updateItem(item.id, { status: 'failed', lastError: message });
+    return 'failed';
+  }
+};
+
+// Posts the signed-in user's pending sales oldest first; stops at the first network failure
+export const flushQueue = (): Promise<void> => {
+  if (!flushInFlight) {
+    flushInFlight = (async () => {
+      // Nothing can be posted without a session; the next login or reconnect flushes again
+      const [token, user] = await Promise.all([getToken(), getSessionUser()]);
+      if (!token || !user) return;
+      const pending = (await loadQueue()).filter((item) => item.status === 'pending' && isQueuedBy(item, user.id));
+      for (const item of pending) {
+        if ((await sendQueued(item)) === 'offline') break;
+      }
+    })()
+      .catch((error) => console.error('Gagal mengirim antrean transaksi:', error))
+      .finally(() => {
+        flushInFlight = null;
+      });
+  }
+  return flushInFlight;
+};
+
+// Flushes on startup and every time the device comes back online
+export const startQueueSync = () =>
+  NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      flushQueue();
+    }
+  });
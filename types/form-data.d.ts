@@ -0,0 +1,11 @@
+// React Native's FormData also accepts a file descriptor and uploads the file at `uri`;
+// the standard typings only know Blob and string values.
+interface ReactNativeFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface FormData {
+  append(name: string, value: ReactNativeFile): void;
+}